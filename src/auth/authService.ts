@@ -0,0 +1,735 @@
+import * as vscode from 'vscode';
+import { authenticateUser, acceptOrgInvitation, isTransientAuthError, AuthErrorCode, OrgRole } from '../github/auth';
+import { getGitHubProviderId, getVSCodeGitHubSession } from '../github/vscodeSession';
+import { clearGitHubCache, isTransientError } from '../github/client';
+import { apiHost, webUrl } from '../github/http';
+import { RevalidationService } from '../github/revalidation';
+import { getUserTeams } from '../github/teams';
+import { SecureStorage, AuthProfile, AuthSource } from '../utils/secureStorage';
+import {
+	getGitHubConnection,
+	getAccessConfig,
+	getTeamPermissionConfig,
+	findOrganizationAccess,
+	OrganizationAccess
+} from '../utils/config';
+import { showAuthenticationDialog, completeAuthentication } from '../ui/authenticationDialog';
+import { AuthenticationPanel } from '../ui/authenticationPanel';
+import { showAuthenticationError } from '../ui/authErrors';
+import { authorizeSsoAndRetry } from '../ui/ssoAuthorization';
+import { AccessPreview, TeamAccess, NO_TEAM_ACCESS, effectiveAccess, hasRole, resolveTeamPermissions } from './permissions';
+
+/**
+ * Settings that decide whether the active profile has access, changing them re-verifies it.
+ * A different API host is another GitHub, profiles of the previous host are kept but not verified there.
+ */
+const ACCESS_SETTINGS = [
+	'avro.github.organization',
+	'avro.github.organizations',
+	'avro.github.requiredRoles',
+	'avro.github.organizationRoles',
+	'avro.github.apiBaseUrl'
+];
+/** Settings are re-checked once typing in the settings editor paused for this long */
+const SETTINGS_DEBOUNCE_MS = 1500;
+
+/**
+ * - signed-out: no active profile
+ * - authenticated: the active profile was verified with GitHub in this session
+ * - offline: the active profile is kept while GitHub cannot be reached, nothing is verified
+ * - unverified: the active profile is stored but GitHub did not grant access (e.g. after a failed switch)
+ */
+export type AuthSessionState = 'signed-out' | 'authenticated' | 'offline' | 'unverified';
+
+export interface AuthSession {
+	state: AuthSessionState;
+	profile?: AuthProfile;
+	/** Role verified with GitHub in this session, only set when authenticated */
+	role?: OrgRole;
+	/** Teams in the active organization and the permissions they grant, only set when authenticated */
+	teamAccess?: TeamAccess;
+	/** Role and teams an admin is previewing, only set when authenticated as admin */
+	preview?: AccessPreview;
+	/** Signed cached role, only set while offline: shown and checked for read-only access to items */
+	cachedRole?: OrgRole;
+	/** Organization of a sign-in waiting for its invitation to be accepted */
+	pendingInvitationOrg?: string;
+}
+
+/**
+ * A sign-in that stopped at a pending organization invitation, kept in memory so the
+ * invitation can be accepted without entering the token again
+ */
+interface PendingInvitation {
+	token: string;
+	orgAccess: OrganizationAccess;
+	source: AuthSource;
+}
+
+/**
+ * Owns the authentication lifecycle: sign-in, logout, profile switching, background revalidation,
+ * offline sessions and the verified role. Every change is published through onDidChangeSession
+ * and mirrored into the avro.authenticated, avro.role, avro.preview, avro.offline and avro.pendingInvitation
+ * context keys. avro.role follows an active preview.
+ */
+export class AuthService implements vscode.Disposable {
+	private readonly _onDidChangeSession = new vscode.EventEmitter<AuthSession>();
+	readonly onDidChangeSession: vscode.Event<AuthSession> = this._onDidChangeSession.event;
+
+	private current: AuthSession = { state: 'signed-out' };
+	private pendingInvitation: PendingInvitation | undefined;
+	private preview: AccessPreview | undefined;
+	private readonly revalidation: RevalidationService;
+	private settingsTimer: ReturnType<typeof setTimeout> | undefined;
+	/** Whether a pending settings check needs to verify with GitHub, or only resolve team permissions again */
+	private accessSettingsChanged = false;
+	private disposables: vscode.Disposable[] = [];
+
+	constructor(private readonly storage: SecureStorage) {
+		this.revalidation = new RevalidationService(storage, {
+			isAuthenticated: () => this.current.state === 'authenticated' || this.current.state === 'offline',
+			isOffline: () => this.current.state === 'offline',
+			onVerified: role => this.handleVerified(role),
+			onAccessLost: (reason, errorCode, ssoUrl) => this.handleAccessLost(reason, errorCode, ssoUrl)
+		});
+
+		this.disposables.push(
+			this.revalidation,
+			this._onDidChangeSession,
+			// Follow account switches and sign-outs of the VS Code GitHub provider
+			vscode.authentication.onDidChangeSessions(e => this.handleVSCodeSessionChange(e)),
+			vscode.workspace.onDidChangeConfiguration(e => this.handleConfigurationChange(e))
+		);
+	}
+
+	/**
+	 * Re-runs role verification after the organization/role settings changed, or resolves the team
+	 * permissions again after avro.github.teamPermissions changed. Connection settings (proxy,
+	 * certificates) do not change access and are picked up by the next request.
+	 */
+	private handleConfigurationChange(e: vscode.ConfigurationChangeEvent): void {
+		const accessChanged = ACCESS_SETTINGS.some(setting => e.affectsConfiguration(setting));
+		if (!accessChanged && !e.affectsConfiguration('avro.github.teamPermissions')) {
+			return;
+		}
+		this.accessSettingsChanged ||= accessChanged;
+		if (this.settingsTimer) {
+			clearTimeout(this.settingsTimer);
+		}
+		this.settingsTimer = setTimeout(() => {
+			this.settingsTimer = undefined;
+			const reverify = this.accessSettingsChanged;
+			this.accessSettingsChanged = false;
+			if (reverify && this.current.state !== 'signed-out') {
+				this.reverify();
+			} else if (this.isAuthenticated()) {
+				// Same teams, new permission mapping
+				this.publish('authenticated', this.current.role);
+			}
+		}, SETTINGS_DEBOUNCE_MS);
+	}
+
+	/**
+	 * The current session
+	 */
+	get session(): AuthSession {
+		return this.current;
+	}
+
+	/**
+	 * Whether the active profile was verified with GitHub in this session
+	 */
+	isAuthenticated(): boolean {
+		return this.current.state === 'authenticated';
+	}
+
+	/**
+	 * Verifies the stored active profile on startup. The role is always re-derived from GitHub,
+	 * transient failures keep the credentials and start an offline session.
+	 */
+	async initialize(): Promise<void> {
+		const profile = await this.storage.getActiveProfile();
+		if (!profile || !(await this.storage.isAuthenticated())) {
+			await this.publish('unverified');
+			return;
+		}
+		if (!isOnConfiguredHost(profile)) {
+			await this.handleHostChange(profile);
+			return;
+		}
+
+		// Sessions from the VS Code GitHub provider may have been refreshed while we were not running
+		if (profile.source === 'vscode') {
+			const session = await getVSCodeGitHubSession(false, getGitHubConnection());
+			if (session) {
+				await this.storage.storePAT(session.accessToken);
+			}
+		}
+
+		const pat = await this.storage.getPAT();
+		const orgAccess = findOrganizationAccess(getAccessConfig(), profile.org);
+		if (!pat || !orgAccess) {
+			await this.publish('unverified');
+			return;
+		}
+
+		const result = await authenticateUser(pat, orgAccess.name, orgAccess.requiredRoles, getGitHubConnection());
+		if (result.success) {
+			await this.publishVerified(result.role);
+			console.log(`User ${profile.user} is already authenticated as ${result.role}`);
+			vscode.window.showInformationMessage(
+				`✓ Avro: Authenticated as ${profile.user}${result.role ? ` (${result.role})` : ''}`
+			);
+		} else if (result.errorCode === 'INVALID_TOKEN') {
+			// PAT is invalid, clear the profile
+			await this.storage.clearAll(profile.id);
+			await this.publish('signed-out');
+			console.log('Stored PAT is invalid, cleared profile');
+			vscode.window.showWarningMessage('✗ Avro: Stored authentication token is invalid. Please re-authenticate.');
+		} else if (isTransientAuthError(result.errorCode)) {
+			// GitHub is unreachable (offline, outage or rate limit), keep the credentials
+			await this.publish('offline');
+			console.log(`GitHub unreachable, starting offline: ${result.error}`);
+			vscode.window.showWarningMessage(
+				`Avro: GitHub is unreachable, showing the last known items of ${profile.user} read-only. Access is re-verified when the connection returns.`
+			);
+		} else {
+			await this.publish('unverified');
+			console.log(`Could not verify stored profile: ${result.error}`);
+			vscode.window.showWarningMessage(
+				`✗ Avro: Could not verify ${profile.user} @ ${profile.org}. ${result.error ?? ''}`.trim()
+			);
+		}
+	}
+
+	/**
+	 * Runs the sign-in dialog and makes the new profile the active session
+	 */
+	async signIn(): Promise<void> {
+		const result = await showAuthenticationDialog(this.storage, this.current.profile?.org);
+
+		if (result.success && result.username) {
+			const message = `✓ Successfully authenticated as ${result.username}${result.role ? ` (${result.role})` : ''}${result.org ? ` in ${result.org}` : ''}`;
+			vscode.window.showInformationMessage(message);
+			console.log(message);
+			this.pendingInvitation = undefined;
+			await this.publish('authenticated', result.role);
+		} else if (result.errorCode === 'PENDING_INVITATION' && result.pat && result.source) {
+			await this.holdForInvitation(result.pat, result.org, result.source);
+		} else if (result.error && result.error !== 'Cancelled') {
+			// Show error notification with remediation actions for the failure kind
+			console.error(`✗ Avro: ${result.error}`);
+			await showAuthenticationError(result.error, result.errorCode, result.org ?? this.current.profile?.org ?? '', {
+				ssoUrl: result.ssoUrl,
+				tokenKind: result.tokenKind
+			});
+		}
+	}
+
+	/**
+	 * Opens the sign-in panel (token or browser sign-in in a webview), the profile it signs in becomes the active session
+	 */
+	openSignInPanel(extensionUri: vscode.Uri): void {
+		AuthenticationPanel.createOrShow(extensionUri, this.storage, async result => {
+			if (result.success) {
+				this.pendingInvitation = undefined;
+				await this.publish('authenticated', result.role);
+			} else if (result.errorCode === 'PENDING_INVITATION' && result.pat && result.source) {
+				await this.holdForInvitation(result.pat, result.org, result.source);
+			}
+		});
+	}
+
+	/**
+	 * Accepts the pending organization invitation and finishes the interrupted sign-in
+	 */
+	async acceptInvitation(): Promise<void> {
+		const invitation = this.pendingInvitation;
+		if (!invitation) {
+			await this.signIn();
+			return;
+		}
+
+		const org = invitation.orgAccess.name;
+		const accepted = await vscode.window.withProgress(
+			{
+				location: vscode.ProgressLocation.Notification,
+				title: `Accepting invitation to ${org}...`,
+				cancellable: false
+			},
+			() => acceptOrgInvitation(invitation.token, org, getGitHubConnection())
+		);
+		if (!accepted.success) {
+			await showAuthenticationError(accepted.error || 'Failed to accept the invitation', accepted.errorCode, org);
+			return;
+		}
+
+		const result = await completeAuthentication(this.storage, invitation.token, invitation.orgAccess, invitation.source);
+		if (!result.success || !result.username) {
+			await showAuthenticationError(result.error || 'Authentication failed', result.errorCode, org, {
+				ssoUrl: result.ssoUrl,
+				tokenKind: result.tokenKind
+			});
+			return;
+		}
+
+		this.pendingInvitation = undefined;
+		await this.publish('authenticated', result.role);
+		vscode.window.showInformationMessage(
+			`✓ Avro: Joined ${org} and authenticated as ${result.username}${result.role ? ` (${result.role})` : ''}`
+		);
+	}
+
+	/**
+	 * Makes a stored profile active and verifies its token against the configured organization and roles.
+	 * A profile that fails verification stays stored but the session is unverified.
+	 */
+	async switchProfile(profileId: string): Promise<boolean> {
+		const profile = await this.storage.setActiveProfile(profileId);
+		const pat = await this.storage.getPAT();
+		if (!profile || !pat) {
+			await this.publish('unverified');
+			return false;
+		}
+
+		if (!isOnConfiguredHost(profile)) {
+			await this.publish('unverified');
+			vscode.window.showWarningMessage(
+				`✗ Avro: ${profile.user} @ ${profile.org} was signed in on ${profile.host}. Set avro.github.apiBaseUrl to that host to use it.`
+			);
+			return false;
+		}
+
+		const orgAccess = findOrganizationAccess(getAccessConfig(), profile.org);
+		if (!orgAccess) {
+			await this.publish('unverified');
+			vscode.window.showWarningMessage(`✗ Avro: Organization "${profile.org}" is no longer configured for Avro.`);
+			return false;
+		}
+
+		const result = await vscode.window.withProgress(
+			{
+				location: vscode.ProgressLocation.Notification,
+				title: `Switching to ${profile.user} @ ${profile.org}...`,
+				cancellable: false
+			},
+			() => authenticateUser(pat, orgAccess.name, orgAccess.requiredRoles, getGitHubConnection())
+		);
+
+		if (!result.success) {
+			await this.publish('unverified');
+			vscode.window.showWarningMessage(`✗ Avro: Could not verify ${profile.user} @ ${profile.org}. ${result.error ?? ''}`.trim());
+			return false;
+		}
+
+		await this.publishVerified(result.role);
+		vscode.window.showInformationMessage(
+			`✓ Avro: Switched to ${profile.user} @ ${profile.org}${result.role ? ` (${result.role})` : ''}`
+		);
+		return true;
+	}
+
+	/**
+	 * Signs out the active profile and falls back to another stored profile if there is one
+	 */
+	async logout(): Promise<void> {
+		const profile = await this.storage.getActiveProfile();
+		await this.storage.clearAll(profile?.id);
+		clearGitHubCache();
+		const message = `✓ Avro: Logged out${profile ? ` (${profile.user} @ ${profile.org})` : ''}`;
+		vscode.window.showInformationMessage(message);
+		console.log(message);
+
+		const profiles = await this.storage.getProfiles();
+		const nextProfile = profiles.find(isOnConfiguredHost) ?? profiles[0];
+		if (nextProfile) {
+			await this.switchProfile(nextProfile.id);
+		} else {
+			await this.publish('signed-out');
+		}
+	}
+
+	/**
+	 * Removes all stored profiles
+	 */
+	async logoutAll(): Promise<void> {
+		const count = (await this.storage.getProfiles()).length;
+		await this.storage.clearAll();
+		clearGitHubCache();
+		const message = `✓ Avro: Logged out of ${count} profile${count === 1 ? '' : 's'}`;
+		vscode.window.showInformationMessage(message);
+		console.log(message);
+		await this.publish('signed-out');
+	}
+
+	/**
+	 * Re-verifies an offline session right away instead of waiting for the next automatic attempt
+	 */
+	async retryConnection(): Promise<void> {
+		await vscode.window.withProgress(
+			{
+				location: vscode.ProgressLocation.Notification,
+				title: 'Reconnecting to GitHub...',
+				cancellable: false
+			},
+			() => this.revalidation.revalidate()
+		);
+		if (this.current.state === 'offline') {
+			vscode.window.showWarningMessage('Avro: GitHub is still unreachable. Retrying automatically every 30 seconds.');
+		}
+	}
+
+	/**
+	 * Whether the verified role allows previewing other roles and teams
+	 */
+	canPreview(): boolean {
+		return this.isAuthenticated() && hasRole(this.current.role, 'admin');
+	}
+
+	/**
+	 * Filters the tree and gates commands as if the user had the previewed role and teams.
+	 * Only admins may preview, the verified session stays as it is.
+	 */
+	async startPreview(preview: AccessPreview): Promise<boolean> {
+		if (!this.canPreview()) {
+			return false;
+		}
+		this.preview = preview;
+		await this.republish();
+		return true;
+	}
+
+	/**
+	 * Ends the preview and returns to the verified access
+	 */
+	async exitPreview(): Promise<void> {
+		if (!this.preview) {
+			return;
+		}
+		this.preview = undefined;
+		await this.republish();
+	}
+
+	/**
+	 * Role text for menus: the verified role, or the cached hint marked as not verified
+	 */
+	async describeRole(): Promise<string> {
+		if (this.isAuthenticated()) {
+			const role = this.current.role ?? 'unknown';
+			return this.current.preview ? `${role} (previewing as ${this.current.preview.role})` : role;
+		}
+		const cachedRole = await this.storage.getCachedRole();
+		return cachedRole ? `${cachedRole} (not verified)` : 'not verified';
+	}
+
+	/**
+	 * Verifies the stored token against the currently configured organization and roles.
+	 * Credentials are only removed when GitHub rejects the token or confirms the user left the organization;
+	 * transient errors keep the session offline and SSO enforcement offers to authorize the token.
+	 * The token is never sent to another GitHub host than the one it was signed in on.
+	 */
+	private async reverify(): Promise<void> {
+		const profile = await this.storage.getActiveProfile();
+		if (profile && !isOnConfiguredHost(profile)) {
+			await this.handleHostChange(profile);
+			return;
+		}
+
+		const pat = await this.storage.getPAT();
+		const storedOrg = await this.storage.getOrganization();
+		const orgAccess = findOrganizationAccess(getAccessConfig(), storedOrg);
+
+		if (!pat || !orgAccess) {
+			// Settings may be changed back, the profile stays stored
+			await this.publish('unverified');
+			vscode.window.showWarningMessage(`✗ Avro: Organization "${storedOrg ?? ''}" is no longer configured for Avro.`);
+			return;
+		}
+
+		const result = await authenticateUser(pat, orgAccess.name, orgAccess.requiredRoles, getGitHubConnection());
+		if (result.success && result.user) {
+			await this.publishVerified(result.role);
+			console.log(`Access re-verified for ${result.user.login}${result.role ? ` (${result.role})` : ''}`);
+			return;
+		}
+
+		if (result.errorCode === 'INVALID_TOKEN' || result.errorCode === 'NOT_A_MEMBER') {
+			await this.storage.clearAll((await this.storage.getActiveProfile())?.id);
+			await this.publish('signed-out');
+			vscode.window.showWarningMessage(`✗ Avro: Access revoked after settings change. ${result.error ?? ''}`.trim());
+		} else if (isTransientAuthError(result.errorCode)) {
+			await this.publish('offline');
+			console.log(`GitHub unreachable while re-verifying after a settings change: ${result.error}`);
+		} else if (result.errorCode === 'SSO_REQUIRED') {
+			await this.publish('unverified');
+			await this.resumeAfterSsoAuthorization(result.ssoUrl);
+		} else {
+			await this.publish('unverified');
+			vscode.window.showWarningMessage(
+				`✗ Avro: Could not verify access after settings change. ${result.error ?? ''}`.trim()
+			);
+		}
+	}
+
+	/**
+	 * avro.github.apiBaseUrl points at another host than the active profile's. The profile stays stored for when
+	 * the setting is changed back; a stored profile of the same organization on the new host takes over.
+	 */
+	private async handleHostChange(profile: AuthProfile): Promise<void> {
+		const host = apiHost(getGitHubConnection());
+		const hostProfile = (await this.storage.getProfiles())
+			.find(candidate => candidate.host === host && candidate.org === profile.org);
+		if (hostProfile) {
+			await this.switchProfile(hostProfile.id);
+			return;
+		}
+
+		await this.publish('unverified');
+		const action = await vscode.window.showWarningMessage(
+			`Avro: ${profile.user} @ ${profile.org} is signed in on ${profile.host}, not ${host}. Sign in to use ${host}.`,
+			'Sign in'
+		);
+		if (action === 'Sign in') {
+			await this.signIn();
+		}
+	}
+
+	private async handleVerified(role: OrgRole | undefined): Promise<void> {
+		const previous = this.current;
+		const teamAccess = previous.profile ? await this.resolveTeamAccess(previous.profile) : NO_TEAM_ACCESS;
+		if (previous.state === 'offline') {
+			await this.publish('authenticated', role, teamAccess);
+			vscode.window.showInformationMessage(
+				`✓ Avro: Back online, verified as ${previous.profile?.user ?? 'unknown'}${role ? ` (${role})` : ''}`
+			);
+			return;
+		}
+
+		const teamsChanged = teamAccess.teams.join(',') !== (previous.teamAccess?.teams ?? []).join(',')
+			|| teamAccess.permissions.join(',') !== (previous.teamAccess?.permissions ?? []).join(',');
+		if (role !== previous.role) {
+			vscode.window.showInformationMessage(
+				`Avro: Your role in ${previous.profile?.org ?? 'the organization'} changed from ${previous.role ?? 'unknown'} to ${role ?? 'unknown'}.`
+			);
+		} else if (teamsChanged) {
+			console.log(`Teams changed: ${teamAccess.teams.join(', ') || 'none'} (permissions: ${teamAccess.permissions.join(', ') || 'none'})`);
+		}
+		if (role !== previous.role || teamsChanged) {
+			await this.publish('authenticated', role, teamAccess);
+		}
+	}
+
+	private async handleAccessLost(reason: string, errorCode: AuthErrorCode | undefined, ssoUrl: string | undefined): Promise<void> {
+		await this.publish('unverified');
+		console.log(`Access lost during revalidation: ${reason}`);
+		if (errorCode === 'SSO_REQUIRED') {
+			await this.resumeAfterSsoAuthorization(ssoUrl);
+			return;
+		}
+		const action = await vscode.window.showWarningMessage(`✗ Avro: Access lost. ${reason}`, 'Sign in');
+		if (action === 'Sign in') {
+			await this.signIn();
+		}
+	}
+
+	/**
+	 * Offers SAML SSO authorization for the stored token of the active profile and
+	 * restores the session once GitHub accepts it again
+	 */
+	private async resumeAfterSsoAuthorization(ssoUrl: string | undefined): Promise<void> {
+		const pat = await this.storage.getPAT();
+		const orgAccess = findOrganizationAccess(getAccessConfig(), await this.storage.getOrganization());
+		if (!pat || !orgAccess) {
+			return;
+		}
+
+		const result = await authorizeSsoAndRetry(
+			orgAccess.name,
+			ssoUrl,
+			() => authenticateUser(pat, orgAccess.name, orgAccess.requiredRoles, getGitHubConnection())
+		);
+		if (!result) {
+			return;
+		}
+		if (!result.success) {
+			await showAuthenticationError(result.error || 'Authentication failed', result.errorCode, orgAccess.name, {
+				ssoUrl: result.ssoUrl,
+				tokenKind: result.tokenInfo?.kind
+			});
+			return;
+		}
+
+		await this.publishVerified(result.role);
+		vscode.window.showInformationMessage(`✓ Avro: Token authorized for ${orgAccess.name}, access restored.`);
+	}
+
+	private async handleVSCodeSessionChange(e: vscode.AuthenticationSessionsChangeEvent): Promise<void> {
+		const connection = getGitHubConnection();
+		if (e.provider.id !== getGitHubProviderId(connection) || !this.isAuthenticated()) {
+			return;
+		}
+		if (await this.storage.getAuthSource() !== 'vscode') {
+			return;
+		}
+
+		const session = await getVSCodeGitHubSession(false, connection);
+		if (!session) {
+			const profile = await this.storage.getActiveProfile();
+			await this.storage.clearAll(profile?.id);
+			await this.publish('signed-out');
+			vscode.window.showWarningMessage(`Avro: GitHub account${profile ? ` ${profile.user}` : ''} was signed out of VS Code.`);
+			return;
+		}
+
+		if (session.accessToken === await this.storage.getPAT()) {
+			return;
+		}
+
+		const access = getAccessConfig();
+		const orgAccess = findOrganizationAccess(access, await this.storage.getOrganization()) ?? access.organizations[0];
+		const previousProfile = await this.storage.getActiveProfile();
+		const result = await completeAuthentication(this.storage, session.accessToken, orgAccess, 'vscode');
+		if (result.success && result.username) {
+			// The new account got its own profile, drop the one of the account that left
+			const activeProfile = await this.storage.getActiveProfile();
+			if (previousProfile && previousProfile.id !== activeProfile?.id) {
+				await this.storage.clearAll(previousProfile.id);
+			}
+			await this.publish('authenticated', result.role);
+			vscode.window.showInformationMessage(
+				`✓ Avro: Switched to ${result.username}${result.role ? ` (${result.role})` : ''}`
+			);
+		} else {
+			await this.storage.clearAll(previousProfile?.id);
+			await this.publish('signed-out');
+			vscode.window.showWarningMessage(`✗ Avro: The VS Code GitHub account changed and could not be verified. ${result.error ?? ''}`.trim());
+		}
+	}
+
+	/**
+	 * Keeps a sign-in that stopped at a pending organization invitation and offers to accept it
+	 */
+	private async holdForInvitation(token: string, org: string | undefined, source: AuthSource): Promise<void> {
+		const orgAccess = findOrganizationAccess(getAccessConfig(), org);
+		if (orgAccess) {
+			this.pendingInvitation = { token, orgAccess, source };
+			await this.republish();
+			await this.offerInvitation(orgAccess.name);
+		}
+	}
+
+	/**
+	 * Notifies about a pending organization invitation and offers to accept it
+	 */
+	private async offerInvitation(org: string): Promise<void> {
+		const action = await vscode.window.showInformationMessage(
+			`Avro: You have a pending invitation to the "${org}" organization. Accept it to continue.`,
+			'Accept Invitation',
+			'View on GitHub'
+		);
+		if (action === 'Accept Invitation') {
+			await this.acceptInvitation();
+		} else if (action === 'View on GitHub') {
+			await vscode.env.openExternal(
+				vscode.Uri.parse(webUrl(getGitHubConnection(), `/orgs/${encodeURIComponent(org)}/invitation`))
+			);
+		}
+	}
+
+	/**
+	 * Refreshes the cached role hint and publishes the verified session
+	 */
+	private async publishVerified(role: OrgRole | undefined): Promise<void> {
+		if (role) {
+			await this.storage.storeRole(role);
+		}
+		await this.publish('authenticated', role);
+	}
+
+	/**
+	 * Publishes the current state again, e.g. after the pending invitation changed
+	 */
+	private republish(): Promise<void> {
+		return this.publish(this.current.state, this.current.role, this.current.teamAccess);
+	}
+
+	/**
+	 * Lists the profile's teams in its organization and resolves their permissions through
+	 * avro.github.teamPermissions. Transient failures keep the teams already known for the profile.
+	 */
+	private async resolveTeamAccess(profile: AuthProfile): Promise<TeamAccess> {
+		const pat = await this.storage.getPAT();
+		if (!pat) {
+			return NO_TEAM_ACCESS;
+		}
+
+		const result = await getUserTeams(pat, profile.org, getGitHubConnection());
+		if (!result.success) {
+			console.warn(`Avro: Could not list the teams of ${profile.user} in ${profile.org}: ${result.error}`);
+			const known = this.current.profile?.id === profile.id ? this.current.teamAccess : undefined;
+			return isTransientError(result.errorCode) && known ? known : NO_TEAM_ACCESS;
+		}
+
+		const { permissionsByTeam } = getTeamPermissionConfig();
+		return {
+			teams: result.teams.map(team => team.name),
+			permissions: resolveTeamPermissions(result.teams.map(team => team.slug), permissionsByTeam)
+		};
+	}
+
+	/**
+	 * Builds the session for the active profile, updates the context keys and notifies listeners.
+	 * Team access is resolved from GitHub for authenticated sessions unless it is passed in.
+	 */
+	private async publish(state: AuthSessionState, role?: OrgRole, teamAccess?: TeamAccess): Promise<void> {
+		const profile = await this.storage.getActiveProfile();
+		const effectiveState = profile ? state : 'signed-out';
+		// A preview ends with the admin session it was started from
+		if (effectiveState !== 'authenticated' || !hasRole(role, 'admin') || profile?.id !== this.current.profile?.id) {
+			this.preview = undefined;
+		}
+		this.current = {
+			state: effectiveState,
+			profile,
+			role: effectiveState === 'authenticated' ? role : undefined,
+			teamAccess: effectiveState === 'authenticated' && profile
+				? teamAccess ?? await this.resolveTeamAccess(profile)
+				: undefined,
+			preview: this.preview,
+			cachedRole: effectiveState === 'offline'
+				? await this.storage.getCachedRole()
+				: undefined,
+			pendingInvitationOrg: this.pendingInvitation?.orgAccess.name
+		};
+
+		if (effectiveState === 'offline') {
+			this.revalidation.scheduleOfflineRetry();
+		}
+
+		const access = effectiveAccess(this.current);
+		await Promise.all([
+			vscode.commands.executeCommand('setContext', 'avro.authenticated', effectiveState === 'authenticated'),
+			vscode.commands.executeCommand('setContext', 'avro.role', access.role),
+			vscode.commands.executeCommand('setContext', 'avro.preview', !!this.preview),
+			vscode.commands.executeCommand('setContext', 'avro.offline', effectiveState === 'offline'),
+			vscode.commands.executeCommand('setContext', 'avro.pendingInvitation', !!this.pendingInvitation)
+		]);
+		this._onDidChangeSession.fire(this.current);
+	}
+
+	dispose(): void {
+		AuthenticationPanel.kill();
+		if (this.settingsTimer) {
+			clearTimeout(this.settingsTimer);
+		}
+		this.disposables.forEach(disposable => disposable.dispose());
+		this.disposables = [];
+	}
+}
+
+/**
+ * Whether the profile was signed in on the GitHub host configured now, its token is only sent there
+ */
+function isOnConfiguredHost(profile: AuthProfile): boolean {
+	return profile.host === apiHost(getGitHubConnection());
+}
@@ -0,0 +1,165 @@
+import { OrgRole } from '../github/auth';
+import { AuthSession } from './authService';
+
+/**
+ * What a command or item requires from the session
+ */
+export interface PermissionRequirement {
+	/** Minimum organization role, admins satisfy member requirements */
+	role?: OrgRole;
+	/** Named permissions granted through GitHub teams (avro.github.teamPermissions), all are required */
+	permissions?: string[];
+	/** Also allowed while offline (read-only access to the last known items) */
+	allowOffline?: boolean;
+}
+
+export interface CommandPermission extends PermissionRequirement {
+	/** Name used in denial messages */
+	title: string;
+}
+
+/**
+ * Requirements of the item commands. The `when` clauses in package.json mirror this table
+ * through the avro.authenticated and avro.role context keys.
+ */
+export const COMMAND_PERMISSIONS: Record<string, CommandPermission> = {
+	'itemsExplorer.openItem': { title: 'Open Item', role: 'member', allowOffline: true },
+	'itemsExplorer.createItem': { title: 'New Item', role: 'member' },
+	'itemsExplorer.createFolder': { title: 'New Folder', role: 'member' },
+	'itemsExplorer.editItem': { title: 'Edit Item', role: 'member' },
+	'itemsExplorer.renameItem': { title: 'Rename Item', role: 'member' },
+	'itemsExplorer.moveItem': { title: 'Move Item', role: 'member' },
+	'itemsExplorer.undoMove': { title: 'Undo Last Move', role: 'member' },
+	'itemsExplorer.deleteItem': { title: 'Delete Item', role: 'admin' },
+	'itemsExplorer.exportItems': { title: 'Export Items', role: 'member', allowOffline: true },
+	'itemsExplorer.executeAction': { title: 'Execute', role: 'member' }
+};
+
+/**
+ * GitHub teams of the signed-in user in the active organization and the permissions they grant
+ */
+export interface TeamAccess {
+	/** Team names for display */
+	teams: string[];
+	permissions: string[];
+}
+
+export const NO_TEAM_ACCESS: TeamAccess = { teams: [], permissions: [] };
+
+/**
+ * Role and teams an admin impersonates to preview the tree and command gating.
+ * Only replaces the access used for filtering and gating, never what was verified with GitHub.
+ */
+export interface AccessPreview {
+	role: OrgRole;
+	teamAccess: TeamAccess;
+}
+
+/**
+ * Role and team access used for filtering and gating: the preview while one is active, otherwise the verified access
+ */
+export function effectiveAccess(session: AuthSession): { role?: OrgRole; teamAccess?: TeamAccess } {
+	return session.preview
+		? { role: session.preview.role, teamAccess: session.preview.teamAccess }
+		: { role: session.role, teamAccess: session.teamAccess };
+}
+
+const ROLE_RANK: Record<OrgRole, number> = {
+	member: 1,
+	admin: 2
+};
+
+export interface PermissionDecision {
+	allowed: boolean;
+	/** Why access was denied, e.g. 'Delete Item requires admin (your role: member)' */
+	reason?: string;
+	/** Signing in could grant access */
+	needsSignIn?: boolean;
+}
+
+/**
+ * Whether a role satisfies the required role. Without a role nothing is granted.
+ */
+export function hasRole(role: OrgRole | undefined, required: OrgRole = 'member'): boolean {
+	return role !== undefined && ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+/**
+ * Permissions of the requirement that are not granted
+ */
+export function missingPermissions(granted: string[] | undefined, required: string[] | undefined): string[] {
+	return (required ?? []).filter(permission => !granted?.includes(permission));
+}
+
+/**
+ * Resolves the permissions granted by team memberships through the configured mapping
+ * @param teamSlugs - Slugs of the user's teams in the active organization
+ * @param permissionsByTeam - Permissions by lowercase team slug
+ */
+export function resolveTeamPermissions(teamSlugs: string[], permissionsByTeam: Map<string, string[]>): string[] {
+	const permissions = new Set<string>();
+	for (const slug of teamSlugs) {
+		permissionsByTeam.get(slug.toLowerCase())?.forEach(permission => permissions.add(permission));
+	}
+	return [...permissions].sort();
+}
+
+/**
+ * The stricter of two role requirements
+ */
+export function stricterRole(a: OrgRole | undefined, b: OrgRole | undefined): OrgRole | undefined {
+	if (!a || !b) {
+		return a ?? b;
+	}
+	return ROLE_RANK[a] >= ROLE_RANK[b] ? a : b;
+}
+
+/**
+ * Offline only read-only requirements are granted, checked against the signed cached role.
+ * Teams are not known offline, so requirements with team permissions are denied.
+ */
+function checkOfflinePermission(session: AuthSession, requirement: PermissionRequirement, what: string): PermissionDecision {
+	if (!requirement.allowOffline) {
+		return { allowed: false, reason: `${what} is not available while offline, items are read-only.` };
+	}
+	if (!hasRole(session.cachedRole, requirement.role)) {
+		return {
+			allowed: false,
+			reason: `${what} requires ${requirement.role ?? 'member'} (cached role: ${session.cachedRole ?? 'unknown'}, offline).`
+		};
+	}
+	if ((requirement.permissions?.length ?? 0) > 0) {
+		return { allowed: false, reason: `${what} requires team permissions, which cannot be checked while offline.` };
+	}
+	return { allowed: true };
+}
+
+/**
+ * Decides whether the session may perform an action with the given requirement, using the preview access while one is active
+ * @param what - Name of the action for the denial message
+ */
+export function checkPermission(session: AuthSession, requirement: PermissionRequirement, what: string): PermissionDecision {
+	if (session.state === 'offline') {
+		return checkOfflinePermission(session, requirement, what);
+	}
+	if (session.state !== 'authenticated') {
+		return { allowed: false, reason: `${what} requires signing in to GitHub.`, needsSignIn: true };
+	}
+	const { role, teamAccess } = effectiveAccess(session);
+	const previewNote = session.preview ? ', previewing' : '';
+	if (!hasRole(role, requirement.role)) {
+		return {
+			allowed: false,
+			reason: `${what} requires ${requirement.role ?? 'member'} (your role: ${role ?? 'unknown'}${previewNote}).`
+		};
+	}
+	const missing = missingPermissions(teamAccess?.permissions, requirement.permissions);
+	if (missing.length > 0) {
+		const teams = teamAccess?.teams ?? [];
+		return {
+			allowed: false,
+			reason: `${what} requires the ${missing.map(permission => `"${permission}"`).join(', ')} permission${missing.length === 1 ? '' : 's'} (your teams: ${teams.length > 0 ? teams.join(', ') : 'none'}${previewNote}).`
+		};
+	}
+	return { allowed: true };
+}
@@ -1,143 +1,366 @@
+import * as crypto from 'crypto';
 import * as vscode from 'vscode';
-import { ItemsProvider, Item } from './itemsProvider';
+import { ItemsProvider, Item, getItemRequiredRole } from './itemsProvider';
 import { SecureStorage } from './utils/secureStorage';
-import { validatePAT, authenticateUser } from './github/auth';
-import { showAuthenticationDialog } from './ui/authenticationDialog';
+import { getAccessConfig, getTeamPermissionConfig, getItemSourceConfig, getGitHubConnection, getGitHubConnectionConfig } from './utils/config';
+import { createItemSource } from './items/itemSources';
+import { ItemStore } from './items/itemStore';
+import { AuthService, AuthSession } from './auth/authService';
+import { COMMAND_PERMISSIONS, PermissionRequirement, checkPermission, stricterRole } from './auth/permissions';
+import { ITEM_SCHEME, ItemFileSystemProvider, itemUri } from './items/itemFileSystem';
+import { DirtyItemDecorations } from './ui/itemDecorations';
+import { showUserMenu } from './ui/signInButton';
+import { ProfileStatusBar } from './ui/profileStatusBar';
+import { showPreviewPicker } from './ui/previewPicker';
+import { showCreateItemInput } from './ui/createItemInput';
+import { ItemsDragAndDropController } from './ui/itemsDragAndDrop';
+import { showItemFilterInput } from './ui/itemFilterInput';
+import { showGoToItemPicker } from './ui/goToItemPicker';
+import { confirmDeleteItems } from './ui/confirmDelete';
+import { ItemFilter, describeFilter, isFilterActive, parseItemFilter } from './items/itemFilter';
 
-let secureStorage: SecureStorage;
-let isUserAuthenticated = false;
+/** workspaceState key of the Items Explorer filter */
+const ITEM_FILTER_STATE_KEY = 'avro.itemFilter';
 
 export async function activate(context: vscode.ExtensionContext) {
 	console.log('Avro extension is now active!');
 
 	// Initialize secure storage
-	secureStorage = new SecureStorage(context);
-
-	// Check if user is already authenticated
-	const isAuthenticated = await secureStorage.isAuthenticated();
-	const storedUser = await secureStorage.getUser();
-	const storedOrg = await secureStorage.getOrganization();
-	const storedRole = await secureStorage.getRole();
-
-	if (isAuthenticated && storedUser) {
-		// Verify stored PAT is still valid
-		const pat = await secureStorage.getPAT();
-		if (pat) {
-			const result = await validatePAT(pat);
-			if (result.success) {
-				isUserAuthenticated = true;
-				console.log(`User ${storedUser} is already authenticated as ${storedRole}`);
-				vscode.window.showInformationMessage(
-					`✓ Avro: Authenticated as ${storedUser}${storedRole ? ` (${storedRole})` : ''}`
-				);
-			} else {
-				// PAT is invalid, clear storage
-				await secureStorage.clearAll();
-				console.log('Stored PAT is invalid, cleared storage');
-				vscode.window.showWarningMessage('✗ Avro: Stored authentication token is invalid. Please re-authenticate.');
+	const secureStorage = new SecureStorage(context);
+
+	reportConfigurationErrors();
+	context.subscriptions.push(
+		vscode.workspace.onDidChangeConfiguration((e) => {
+			if (e.affectsConfiguration('avro.github')) {
+				reportConfigurationErrors();
 			}
-		}
-	}
+		})
+	);
+
+	// Create the TreeView provider, items come from the Avro platform or a local catalog file
+	const createSource = () => createItemSource(getItemSourceConfig(), () => secureStorage.getPAT(), getGitHubConnection());
+	const itemStore = new ItemStore(context.workspaceState);
+	const itemsProvider = new ItemsProvider(createSource(), itemStore, context.globalState);
+	context.subscriptions.push(
+		itemStore,
+		vscode.workspace.onDidChangeConfiguration((e) => {
+			if (e.affectsConfiguration('avro.api') || e.affectsConfiguration('avro.items')) {
+				itemsProvider.setSource(createSource());
+			}
+		}),
+		// Local edits stay in place when the item source changes the same file, the user picks which one wins
+		itemsProvider.onDidDetectContentConflicts(items => resolveContentConflicts(itemsProvider, items))
+	);
+
+	// Show the active profile in the status bar
+	const profileStatusBar = new ProfileStatusBar();
+	context.subscriptions.push(profileStatusBar);
+
+	// The auth service owns the session, the tree and status bar follow its changes
+	const authService = new AuthService(secureStorage);
+	context.subscriptions.push(
+		authService,
+		authService.onDidChangeSession(session => renderSession(session, itemsProvider, profileStatusBar))
+	);
 
-	// Create the TreeView provider
-	const itemsProvider = new ItemsProvider();
-	
-	// Set initial authentication state with role
-	itemsProvider.setAuthenticationState(isUserAuthenticated, storedUser, storedRole as 'admin' | 'member' | undefined);
+	// Verify the stored profile with GitHub (re-deriving the role) before showing items
+	await authService.initialize();
 
-	// Register the TreeView
-	vscode.window.createTreeView('itemsExplorer', {
+	// Serve file item contents under avro: and mark items with unsaved changes
+	const itemFileSystem = new ItemFileSystemProvider(itemsProvider, (item, access) => {
+		const commandId = access === 'write' ? 'itemsExplorer.editItem' : 'itemsExplorer.openItem';
+		return checkPermission(authService.session, itemRequirement(commandId, item), COMMAND_PERMISSIONS[commandId].title);
+	});
+	const dirtyDecorations = new DirtyItemDecorations();
+	context.subscriptions.push(
+		itemFileSystem,
+		vscode.workspace.registerFileSystemProvider(ITEM_SCHEME, itemFileSystem, { isCaseSensitive: true }),
+		dirtyDecorations,
+		vscode.window.registerFileDecorationProvider(dirtyDecorations)
+	);
+
+	// Register the TreeView, items can be dragged to move them and files dropped to import them
+	const dragAndDrop = new ItemsDragAndDropController(itemsProvider, (commandId, item) =>
+		checkPermission(authService.session, itemRequirement(commandId, item), COMMAND_PERMISSIONS[commandId].title));
+	const treeView = vscode.window.createTreeView('itemsExplorer', {
 		treeDataProvider: itemsProvider,
 		showCollapseAll: true,
+		canSelectMany: true,
+		dragAndDropController: dragAndDrop
 	});
+	context.subscriptions.push(
+		treeView,
+		// Expanded folders are rebuilt expanded and keep their children across refreshes
+		treeView.onDidExpandElement(e => itemsProvider.setExpanded(e.element.id, true)),
+		treeView.onDidCollapseElement(e => itemsProvider.setExpanded(e.element.id, false))
+	);
 
-	// Register authentication command
-	context.subscriptions.push(
-		vscode.commands.registerCommand('avro.authenticate', async () => {
-			// Show authentication dialog (quick input)
-			const result = await showAuthenticationDialog(secureStorage, storedOrg);
-
-			if (result.success && result.username) {
-				// Get the role from storage (it was stored during authenticateUser)
-				const role = await secureStorage.getRole();
-				
-				isUserAuthenticated = true;
-				const message = `✓ Successfully authenticated as ${result.username}${role ? ` (${role})` : ''}`;
-				vscode.window.showInformationMessage(message);
-				console.log(message);
-				// Update ItemsProvider with authentication state and role
-				itemsProvider.setAuthenticationState(true, result.username, role as 'admin' | 'member' | undefined);
-			} else if (result.error && result.error !== 'Cancelled') {
-				// Show error notification for failed authentication with details
-				const errorMessage = `✗ Avro: ${result.error}`;
-				const action = await vscode.window.showErrorMessage(
-					errorMessage,
-					'Retry',
-					'Troubleshoot',
-					'Dismiss'
-				);
-				
-				if (action === 'Retry') {
-					// Trigger authentication again
-					vscode.commands.executeCommand('avro.authenticate');
-				} else if (action === 'Troubleshoot') {
-					// Open GitHub token settings
-					vscode.env.openExternal(vscode.Uri.parse('https://github.com/settings/tokens'));
-				}
-				console.error(errorMessage);
+	// The tree filter is kept per workspace, the view title says when it is active
+	const applyItemFilter = (filter: ItemFilter | undefined) => {
+		const active = isFilterActive(filter) ? filter : undefined;
+		itemsProvider.setFilter(active);
+		treeView.description = active ? `Filtered: ${describeFilter(active)}` : undefined;
+		vscode.commands.executeCommand('setContext', 'avro.itemsFiltered', active !== undefined);
+		return context.workspaceState.update(ITEM_FILTER_STATE_KEY, active);
+	};
+	await applyItemFilter(parseItemFilter(context.workspaceState.get(ITEM_FILTER_STATE_KEY)));
+	context.subscriptions.push(
+		vscode.commands.registerCommand('itemsExplorer.filterItems', async () => {
+			const filter = await showItemFilterInput(itemsProvider.getFilter(), itemsProvider.getTags());
+			if (filter) {
+				await applyItemFilter(filter);
+			}
+		}),
+		vscode.commands.registerCommand('itemsExplorer.clearFilter', () => applyItemFilter(undefined)),
+		vscode.commands.registerCommand('avro.goToItem', async () => {
+			const item = await showGoToItemPicker(itemsProvider.listItems());
+			if (!item) {
+				return;
+			}
+			if (itemsProvider.isHiddenByFilter(item.id)) {
+				await applyItemFilter(undefined);
+				vscode.window.showInformationMessage(`Avro: Filter cleared to show ${item.label}.`);
 			}
+			await treeView.reveal(item, { select: true, focus: true, expand: item.itemType === 'folder' });
 		})
 	);
 
-	// Register logout command
+	// Register authentication commands
+	context.subscriptions.push(
+		vscode.commands.registerCommand('avro.authenticate', () => authService.signIn()),
+		vscode.commands.registerCommand('avro.openSignInPanel', () => authService.openSignInPanel(context.extensionUri)),
+		vscode.commands.registerCommand('avro.acceptInvitation', () => authService.acceptInvitation()),
+		vscode.commands.registerCommand('avro.retryConnection', () => authService.retryConnection()),
+		vscode.commands.registerCommand('avro.logout', () => authService.logout()),
+		vscode.commands.registerCommand('avro.logoutAll', () => authService.logoutAll())
+	);
+
+	// Admin preview of what other roles and teams see, GitHub verification is not affected
 	context.subscriptions.push(
-		vscode.commands.registerCommand('avro.logout', async () => {
-			const username = await secureStorage.getUser();
-			await secureStorage.clearAll();
-			isUserAuthenticated = false;
-			const message = `✓ Avro: Logged out${username ? ` (${username})` : ''}`;
-			vscode.window.showInformationMessage(message);
-			console.log(message);
-			// Update ItemsProvider to show sign-in button
-			itemsProvider.setAuthenticationState(false);
+		vscode.commands.registerCommand('avro.previewAs', async () => {
+			if (!authService.canPreview()) {
+				vscode.window.showWarningMessage(`✗ Avro: Previewing requires admin (your role: ${authService.session.role ?? 'unknown'}).`);
+				return;
+			}
+			const preview = await showPreviewPicker(authService.session.preview);
+			if (preview) {
+				await authService.startPreview(preview);
+			}
+		}),
+		vscode.commands.registerCommand('avro.exitPreview', () => authService.exitPreview())
+	);
+
+	// Register profile switching (status bar and user-status node)
+	context.subscriptions.push(
+		vscode.commands.registerCommand('avro.switchProfile', async () => {
+			const profiles = await secureStorage.getProfiles();
+			const activeProfile = authService.session.profile;
+			if (profiles.length === 0) {
+				await authService.signIn();
+				return;
+			}
+
+			const action = await showUserMenu(
+				activeProfile?.user ?? 'Not signed in',
+				activeProfile?.org ?? '-',
+				await authService.describeRole(),
+				profiles,
+				activeProfile?.id
+			);
+
+			if (action.type === 'switch') {
+				await authService.switchProfile(action.profileId);
+			} else if (action.type === 'add') {
+				await authService.signIn();
+			} else if (action.type === 'logout') {
+				await authService.logout();
+			} else if (action.type === 'logoutAll') {
+				await authService.logoutAll();
+			}
 		})
 	);
 
 	// Register commands
 	context.subscriptions.push(
-		vscode.commands.registerCommand('itemsExplorer.refreshItems', () => {
-			itemsProvider.refresh();
-			vscode.window.showInformationMessage('Items refreshed!');
+		vscode.commands.registerCommand('itemsExplorer.refreshItems', async () => {
+			const selectedId = treeView.selection[0]?.id;
+			const result = await itemsProvider.loadItems();
+			if (result.success) {
+				// Select the item again if the view lost it while the tree was replaced
+				const selected = selectedId ? itemsProvider.findItem(selectedId) : undefined;
+				if (selected && treeView.selection.length === 0) {
+					await treeView.reveal(selected, { select: true, focus: false });
+				}
+				vscode.window.showInformationMessage('Items refreshed!');
+			} else if (result.errorCode !== 'CANCELLED') {
+				vscode.window.showWarningMessage(`✗ Avro: Could not load items. ${result.error ?? ''}`.trim());
+			}
+		}),
+		vscode.commands.registerCommand('itemsExplorer.loadMore', async (parentId?: string) => {
+			const result = await itemsProvider.loadMoreChildren(parentId);
+			if (!result.success && result.errorCode !== 'CANCELLED') {
+				vscode.window.showWarningMessage(`✗ Avro: Could not load more items. ${result.error ?? ''}`.trim());
+			}
 		})
 	);
 
+	// Item commands check COMMAND_PERMISSIONS and the item's requirements before running
 	context.subscriptions.push(
-		vscode.commands.registerCommand('itemsExplorer.openItem', (item: Item) => {
-			vscode.window.showInformationMessage(`Opening item: ${item.label}`);
-			// You can add custom logic here, e.g., open a file or show details
-		})
+		registerItemCommand('itemsExplorer.openItem', authService, (item) => openItemDocument(item, true))
 	);
 
+	// File items are edited in a text editor, other items get their label and description changed
 	context.subscriptions.push(
-		vscode.commands.registerCommand('itemsExplorer.editItem', (item: Item) => {
-			vscode.window.showInformationMessage(`Editing item: ${item.label}`);
-			// You can add custom logic here, e.g., open an input dialog
+		registerItemCommand('itemsExplorer.editItem', authService, (item) =>
+			item.itemType === 'file'
+				? openItemDocument(item, false)
+				: vscode.commands.executeCommand('itemsExplorer.renameItem', item))
+	);
+
+	context.subscriptions.push(
+		registerItemCommand('itemsExplorer.renameItem', authService, async (item) => {
+			const label = await vscode.window.showInputBox({
+				title: `Rename ${item.label}`,
+				prompt: 'Label',
+				value: item.label,
+				validateInput: value => value.trim() ? undefined : 'The label cannot be empty'
+			});
+			if (label === undefined) {
+				return;
+			}
+			const description = await vscode.window.showInputBox({
+				title: `Rename ${item.label}`,
+				prompt: 'Description',
+				value: item.description
+			});
+			if (description === undefined) {
+				return;
+			}
+
+			const result = await itemsProvider.editItem(item.id, { label: label.trim(), description });
+			if (!result.success) {
+				vscode.window.showErrorMessage(`✗ Avro: ${result.error}`);
+			}
 		})
 	);
 
+	// Delete, move and export act on all selected items
 	context.subscriptions.push(
-		vscode.commands.registerCommand('itemsExplorer.deleteItem', (item: Item) => {
-			vscode.window.showWarningMessage(
-				`Delete item: ${item.label}?`,
-				'Yes',
-				'No'
-			).then(result => {
-				if (result === 'Yes') {
-					vscode.window.showInformationMessage(`Item ${item.label} deleted!`);
-					itemsProvider.deleteItem(item.id);
-					itemsProvider.refresh();
+		registerSelectionCommand('itemsExplorer.deleteItem', authService, treeView, async (selection) => {
+			const items = itemsProvider.getSelectionRoots(selection);
+			if (items.length === 0 || !(await confirmDeleteItems(items))) {
+				return;
+			}
+			const result = await itemsProvider.deleteItems(items.map(item => item.id));
+			if (!result.success) {
+				vscode.window.showErrorMessage(`✗ Avro: ${result.error}`);
+				return;
+			}
+			const action = await vscode.window.showInformationMessage(
+				`✓ Avro: Deleted ${describeItems(items)}.`,
+				'Undo'
+			);
+			if (action === 'Undo' && result.undo) {
+				const restored = await result.undo();
+				if (!restored.success) {
+					vscode.window.showErrorMessage(`✗ Avro: ${restored.error}`);
 				}
+			}
+		}),
+		registerSelectionCommand('itemsExplorer.exportItems', authService, treeView, async (selection) => {
+			const items = itemsProvider.getSelectionRoots(selection);
+			if (items.length === 0) {
+				return;
+			}
+			const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+			const uri = await vscode.window.showSaveDialog({
+				title: `Export ${describeItems(items)}`,
+				defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder, 'items-export.json') : undefined,
+				filters: { 'JSON': ['json'] }
 			});
+			if (!uri) {
+				return;
+			}
+			const entries = itemsProvider.exportItems(items.map(item => item.id));
+			try {
+				await vscode.workspace.fs.writeFile(uri, Buffer.from(JSON.stringify({ items: entries }, null, 2) + '\n', 'utf8'));
+				vscode.window.showInformationMessage(`✓ Avro: Exported ${entries.length} ${entries.length === 1 ? 'item' : 'items'} to ${vscode.workspace.asRelativePath(uri)}.`);
+			} catch (err) {
+				vscode.window.showErrorMessage(`✗ Avro: Could not export items: ${err instanceof Error ? err.message : 'Unknown error'}`);
+			}
+		})
+	);
+
+	// Create commands take the folder from the context menu, or the folder of the tree selection from the view title
+	const createCommand = (kind: 'item' | 'folder') => async (target?: Item) => {
+		const selected = target ?? treeView.selection[0];
+		// Next to a selected non-folder item, inside a selected folder
+		const parent = selected && selected.itemType !== 'folder' ? itemsProvider.findParent(selected.id) : selected;
+		const input = await showCreateItemInput(
+			kind,
+			parent?.label,
+			name => itemsProvider.validateNewItemName(parent?.id, name)
+		);
+		if (!input) {
+			return;
+		}
+		const result = await itemsProvider.addItem(
+			`local-${crypto.randomUUID()}`,
+			input.label,
+			input.description,
+			input.type,
+			parent?.id
+		);
+		if (!result.success) {
+			vscode.window.showErrorMessage(`✗ Avro: ${result.error}`);
+		}
+	};
+	context.subscriptions.push(
+		registerGatedCommand('itemsExplorer.createItem', authService, createCommand('item')),
+		registerGatedCommand('itemsExplorer.createFolder', authService, createCommand('folder'))
+	);
+
+	context.subscriptions.push(
+		registerSelectionCommand('itemsExplorer.moveItem', authService, treeView, async (selection) => {
+			const items = itemsProvider.getSelectionRoots(selection);
+			if (items.length === 0) {
+				return;
+			}
+			type TargetItem = vscode.QuickPickItem & { parentId?: string; name: string };
+			const targets: TargetItem[] = [
+				{ label: '$(root-folder) Root', description: 'Top level of the Items Explorer', name: 'the root' },
+				...itemsProvider.getFolders()
+					.filter(folder => !items.some(item => item.id === folder.id))
+					.map(folder => ({
+						label: `$(folder) ${folder.label}`,
+						description: folder.description,
+						parentId: folder.id,
+						name: folder.label
+					}))
+			];
+			const target = await vscode.window.showQuickPick(targets, { placeHolder: `Move ${describeItems(items)} to...` });
+			if (!target) {
+				return;
+			}
+			const result = await itemsProvider.moveItems(items.map(item => item.id), target.parentId);
+			if (!result.success) {
+				vscode.window.showErrorMessage(`✗ Avro: ${result.error}`);
+				return;
+			}
+			const action = await vscode.window.showInformationMessage(`✓ Avro: Moved ${describeItems(items)} to ${target.name}.`, 'Undo');
+			if (action === 'Undo') {
+				await vscode.commands.executeCommand('itemsExplorer.undoMove');
+			}
+		}),
+		registerGatedCommand('itemsExplorer.undoMove', authService, async () => {
+			if (!itemsProvider.canUndoMove()) {
+				vscode.window.showInformationMessage('Avro: There is no move to undo.');
+				return;
+			}
+			const result = await itemsProvider.undoLastMove();
+			if (!result.success) {
+				vscode.window.showErrorMessage(`✗ Avro: ${result.error}`);
+			}
 		})
 	);
 
@@ -151,18 +374,186 @@ export async function activate(context: vscode.ExtensionContext) {
 
 	// Execute action command
 	context.subscriptions.push(
-		vscode.commands.registerCommand('itemsExplorer.executeAction', (item: Item) => {
-			vscode.window.showInformationMessage(`Executing action: ${item.label}`);
-			// Add your custom action logic here
-			if (item.label === 'Deploy') {
-				vscode.window.showInformationMessage('🚀 Deploying to production...');
-			} else if (item.label === 'Test') {
-				vscode.window.showInformationMessage('🧪 Running tests...');
+		registerItemCommand('itemsExplorer.executeAction', authService, async (item) => {
+			const result = await vscode.window.withProgress(
+				{ location: vscode.ProgressLocation.Notification, title: `Running ${item.label}...`, cancellable: true },
+				(_progress, cancellation) => itemsProvider.executeAction(item.id, cancellation)
+			);
+			if (result.success) {
+				vscode.window.showInformationMessage(`✓ Avro: ${result.message ?? `${item.label} finished.`}`);
+			} else if (result.errorCode !== 'CANCELLED') {
+				vscode.window.showErrorMessage(`✗ Avro: ${item.label} failed: ${result.error}`);
 			}
 		})
 	);
 }
 
+/**
+ * The command's entry in COMMAND_PERMISSIONS combined with the item's required role and team permissions
+ */
+function itemRequirement(commandId: string, item: Item | undefined): PermissionRequirement {
+	const permission = COMMAND_PERMISSIONS[commandId];
+	return {
+		...permission,
+		role: stricterRole(permission.role, item ? getItemRequiredRole(item) : undefined),
+		permissions: [...(permission.permissions ?? []), ...(item?.requiredPermissions ?? [])]
+	};
+}
+
+/**
+ * Opens a file item's content in an editor through the avro: file system
+ * @param preview - Open as preview tab (single click) instead of a pinned editor
+ */
+async function openItemDocument(item: Item, preview: boolean): Promise<void> {
+	if (item.itemType !== 'file') {
+		vscode.window.showInformationMessage(`Avro: ${item.label} has no content to open.`);
+		return;
+	}
+	const document = await vscode.workspace.openTextDocument(itemUri(item.id, item.label));
+	await vscode.window.showTextDocument(document, { preview });
+}
+
+/**
+ * Asks whether to keep the local edits of file items whose item source content changed since they were saved
+ */
+async function resolveContentConflicts(itemsProvider: ItemsProvider, items: Item[]): Promise<void> {
+	const what = items.length === 1 ? `"${items[0].label}" was` : `${items.length} file items were`;
+	const action = await vscode.window.showWarningMessage(
+		`✗ Avro: ${what} changed in the item source after being edited here. Your edits are still shown.`,
+		'Keep My Edits',
+		'Use Source Content'
+	);
+	if (!action) {
+		return;
+	}
+	for (const item of items) {
+		const result = await itemsProvider.resolveContentConflict(item.id, action === 'Keep My Edits' ? 'stored' : 'source');
+		if (!result.success) {
+			vscode.window.showErrorMessage(`✗ Avro: ${result.error}`);
+			return;
+		}
+	}
+}
+
+/**
+ * Registers a command that is only run when the session satisfies the command's entry in
+ * COMMAND_PERMISSIONS and, when invoked on an item, the item's required role and team permissions,
+ * showing why access was denied otherwise
+ */
+function registerGatedCommand(commandId: string, authService: AuthService, handler: (item?: Item) => unknown): vscode.Disposable {
+	return vscode.commands.registerCommand(commandId, async (item?: Item) => {
+		if (await isPermitted(commandId, authService, item)) {
+			return handler(item);
+		}
+	});
+}
+
+/**
+ * Registers a gated command for the tree selection: the item it was invoked on together with the
+ * other selected items, or the selection when run from the Command Palette. Every item must be permitted.
+ */
+function registerSelectionCommand(
+	commandId: string,
+	authService: AuthService,
+	treeView: vscode.TreeView<Item>,
+	handler: (items: Item[]) => unknown
+): vscode.Disposable {
+	return vscode.commands.registerCommand(commandId, async (item?: Item, selected?: Item[]) => {
+		const items = selected?.length ? selected : item ? [item] : [...treeView.selection];
+		if (items.length === 0) {
+			const title = COMMAND_PERMISSIONS[commandId].title;
+			vscode.window.showInformationMessage(`Avro: Select items in the Items Explorer to use "${title}".`);
+			return;
+		}
+		for (const target of items) {
+			if (!(await isPermitted(commandId, authService, target))) {
+				return;
+			}
+		}
+		return handler(items);
+	});
+}
+
+/**
+ * Checks a command against the session for an item, showing why access was denied
+ */
+async function isPermitted(commandId: string, authService: AuthService, item: Item | undefined): Promise<boolean> {
+	const decision = checkPermission(authService.session, itemRequirement(commandId, item), COMMAND_PERMISSIONS[commandId].title);
+	if (decision.allowed) {
+		return true;
+	}
+	const action = await vscode.window.showWarningMessage(
+		`✗ Avro: ${decision.reason}`,
+		...(decision.needsSignIn ? ['Sign in'] : [])
+	);
+	if (action === 'Sign in') {
+		await authService.signIn();
+	}
+	return false;
+}
+
+/**
+ * "Report.md" for one item, "3 items" for more
+ */
+function describeItems(items: Item[]): string {
+	return items.length === 1 ? `"${items[0].label}"` : `${items.length} items`;
+}
+
+/**
+ * Registers a gated command that needs an item, e.g. from the item's context menu
+ */
+function registerItemCommand(commandId: string, authService: AuthService, handler: (item: Item) => unknown): vscode.Disposable {
+	return registerGatedCommand(commandId, authService, (item) => {
+		if (!item) {
+			const title = COMMAND_PERMISSIONS[commandId].title;
+			vscode.window.showInformationMessage(`Avro: Select an item in the Items Explorer to use "${title}".`);
+			return;
+		}
+		return handler(item);
+	});
+}
+
+/**
+ * Shows the session in the tree and status bar
+ */
+function renderSession(session: AuthSession, itemsProvider: ItemsProvider, profileStatusBar: ProfileStatusBar): void {
+	const profile = session.profile;
+	if (session.state === 'offline') {
+		itemsProvider.setOfflineState(profile?.user, session.cachedRole, profile?.org);
+	} else {
+		// Only the role and teams verified with GitHub in this session are used for the tree's filtering
+		itemsProvider.setAuthenticationState(
+			session.state === 'authenticated',
+			profile?.user,
+			session.role,
+			profile?.org,
+			session.teamAccess
+		);
+	}
+	itemsProvider.setPreview(session.preview);
+	itemsProvider.setPendingInvitation(session.pendingInvitationOrg);
+	profileStatusBar.update(
+		profile,
+		session.state === 'authenticated',
+		session.role ?? session.cachedRole,
+		session.state === 'offline'
+	);
+}
+
+/**
+ * Shows a warning for invalid avro.github connection, organization, role and team permission settings
+ */
+function reportConfigurationErrors(): void {
+	const errors = [
+		...getGitHubConnectionConfig().errors,
+		...getAccessConfig().errors,
+		...getTeamPermissionConfig().errors
+	];
+	if (errors.length > 0) {
+		vscode.window.showWarningMessage(`Avro: Invalid settings ignored: ${errors.join('; ')}`);
+	}
+}
+
 export function deactivate() {
 	console.log('Avro extension is now deactivated!');
 }
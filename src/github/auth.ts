@@ -1,3 +1,6 @@
+import { GitHubConnection, DEFAULT_GITHUB_CONNECTION } from './http';
+import { GitHubClient, GitHubErrorCode, GitHubRequestError, describeRateLimit } from './client';
+
 export interface GitHubUser {
 	login: string;
 	id: number;
@@ -5,18 +8,75 @@ export interface GitHubUser {
 	email: string | null;
 }
 
+export type OrgRole = 'admin' | 'member';
+
+/**
+ * Whether a stored or configured value is a known organization role
+ */
+export function isOrgRole(value: unknown): value is OrgRole {
+	return value === 'admin' || value === 'member';
+}
+
 export interface GitHubOrgMembership {
 	url: string;
-	role: 'admin' | 'member';
+	role: OrgRole;
 	state: 'active' | 'pending';
 	organization_url: string;
 }
 
+/**
+ * Kind of GitHub token, derived from its prefix
+ * - classic: classic Personal Access Token (ghp_), permissions are OAuth scopes
+ * - fine-grained: fine-grained Personal Access Token (github_pat_), permissions are granted per resource owner
+ * - oauth: OAuth app token (gho_), e.g. from the device flow or the VS Code GitHub account, uses scopes
+ * - unknown: any other token (e.g. older Enterprise Server tokens without prefix)
+ */
+export type TokenKind = 'classic' | 'fine-grained' | 'oauth' | 'unknown';
+
+/**
+ * Token metadata GitHub returns in response headers
+ */
+export interface TokenInfo {
+	kind: TokenKind;
+	/** Classic token scopes from X-OAuth-Scopes, undefined when the header is absent (e.g. fine-grained tokens) */
+	scopes?: string[];
+	/** From github-authentication-token-expiration, undefined for tokens without expiry */
+	expiresAt?: Date;
+}
+
+/**
+ * Why authentication or role verification failed
+ * - INVALID_TOKEN: token unknown, revoked or expired
+ * - MISSING_SCOPE: token lacks read:org (or the equivalent fine-grained permission)
+ * - ORG_NOT_FOUND: organization does not exist or is not visible to the token
+ * - NOT_A_MEMBER: user is not a member of the organization
+ * - INSUFFICIENT_ROLE: user is a member but their role is not allowed
+ * - PENDING_INVITATION: user was invited but has not accepted yet
+ * - SSO_REQUIRED: organization enforces SAML SSO and the token is not authorized for it
+ * - RATE_LIMITED: GitHub API rate limit exceeded
+ * - NETWORK: GitHub could not be reached (offline, DNS, proxy, timeout)
+ * - SERVER_ERROR: GitHub answered with a 5xx error
+ * - UNKNOWN: any other unexpected response
+ */
+export type AuthErrorCode =
+	| 'INVALID_TOKEN'
+	| 'MISSING_SCOPE'
+	| 'ORG_NOT_FOUND'
+	| 'NOT_A_MEMBER'
+	| 'INSUFFICIENT_ROLE'
+	| 'PENDING_INVITATION'
+	| 'SSO_REQUIRED'
+	| 'RATE_LIMITED'
+	| 'NETWORK'
+	| 'SERVER_ERROR'
+	| 'UNKNOWN';
+
 export interface AuthenticationResult {
 	success: boolean;
 	user?: GitHubUser;
+	tokenInfo?: TokenInfo;
 	error?: string;
-	errorCode?: string;
+	errorCode?: AuthErrorCode;
 }
 
 export interface RoleVerificationResult {
@@ -24,49 +84,193 @@ export interface RoleVerificationResult {
 	hasAccess: boolean;
 	membership?: GitHubOrgMembership;
 	error?: string;
+	errorCode?: AuthErrorCode;
+	/** Where to authorize the token for SAML SSO, set with SSO_REQUIRED */
+	ssoUrl?: string;
+}
+
+/**
+ * Parses the X-GitHub-SSO header GitHub sends when an organization enforces SAML SSO
+ * (e.g. "required; url=https://github.com/orgs/octo-org/sso?authorization_request=...")
+ * @returns Whether authorization is required and the authorization URL if present
+ */
+export function parseSsoHeader(value: string | null): { required: boolean; url?: string } {
+	if (!value) {
+		return { required: false };
+	}
+	const url = /(?:^|;)\s*url=([^;\s]+)/i.exec(value)?.[1];
+	return {
+		required: /(?:^|;)\s*required\b/i.test(value),
+		url
+	};
+}
+
+/**
+ * Whether the failure is likely temporary and the token should not be considered invalid
+ */
+export function isTransientAuthError(code: AuthErrorCode | undefined): boolean {
+	return code === 'NETWORK' || code === 'RATE_LIMITED' || code === 'SERVER_ERROR';
+}
+
+/**
+ * Maps transport-level client errors to authentication error kinds
+ */
+function toAuthErrorCode(code: GitHubErrorCode | undefined): AuthErrorCode {
+	switch (code) {
+		case 'UNAUTHORIZED':
+			return 'INVALID_TOKEN';
+		case 'FORBIDDEN':
+			return 'MISSING_SCOPE';
+		case 'NOT_FOUND':
+			return 'NOT_A_MEMBER';
+		case 'RATE_LIMITED':
+			return 'RATE_LIMITED';
+		case 'NETWORK_ERROR':
+		case 'TIMEOUT':
+			return 'NETWORK';
+		case 'SERVER_ERROR':
+			return 'SERVER_ERROR';
+		default:
+			return 'UNKNOWN';
+	}
+}
+
+/** Scopes that allow reading organization memberships */
+const ORG_READ_SCOPES = ['read:org', 'write:org', 'admin:org'];
+
+/** Labels of fine-grained permissions as shown in GitHub's token settings */
+const FINE_GRAINED_PERMISSION_LABELS: Record<string, string> = {
+	members: 'Organization permissions > Members'
+};
+
+export interface PermissionCheckResult {
+	success: boolean;
+	/** Human readable permissions the token lacks for the organization, empty when everything needed is granted */
+	missingPermissions: string[];
+	error?: string;
+	errorCode?: AuthErrorCode;
+}
+
+/**
+ * Tells the kind of a token from its prefix
+ */
+export function getTokenKind(token: string): TokenKind {
+	if (token.startsWith('github_pat_')) {
+		return 'fine-grained';
+	}
+	if (token.startsWith('ghp_')) {
+		return 'classic';
+	}
+	if (token.startsWith('gho_')) {
+		return 'oauth';
+	}
+	return 'unknown';
+}
+
+/**
+ * Parses the X-Accepted-GitHub-Permissions header listing the fine-grained permissions an endpoint
+ * accepts (e.g. "members=read"; alternatives are separated by semicolons)
+ * @returns Readable permission names of the first alternative, e.g. ["Organization permissions > Members: read"]
+ */
+export function parseAcceptedPermissions(value: string | null): string[] {
+	const [firstAlternative] = (value ?? '').split(';');
+	return firstAlternative
+		.split(',')
+		.map(entry => entry.trim())
+		.filter(entry => entry.length > 0)
+		.map(entry => {
+			const [name, level = 'read'] = entry.split('=');
+			return `${FINE_GRAINED_PERMISSION_LABELS[name] ?? name}: ${level}`;
+		});
+}
+
+/**
+ * Checks if classic token scopes allow reading organization memberships.
+ * Returns true when scopes are unknown (fine-grained tokens do not report them).
+ */
+export function hasOrgReadScope(scopes: string[] | undefined): boolean {
+	return !scopes || scopes.some(scope => ORG_READ_SCOPES.includes(scope));
+}
+
+/**
+ * Parses the github-authentication-token-expiration header
+ * (e.g. "2024-06-30 15:10:06 UTC" or "2024-06-30 15:10:06 -0700")
+ */
+export function parseTokenExpiration(value: string | null): Date | undefined {
+	if (!value) {
+		return undefined;
+	}
+	const iso = value.trim()
+		.replace(' ', 'T')
+		.replace(/\s*UTC$/i, 'Z')
+		.replace(/\s*([+-]\d{2})(\d{2})$/, '$1:$2');
+	const date = new Date(iso);
+	return isNaN(date.getTime()) ? undefined : date;
+}
+
+function readTokenInfo(token: string, headers: { get(name: string): string | null }): TokenInfo {
+	const scopesHeader = headers.get('x-oauth-scopes');
+	return {
+		kind: getTokenKind(token),
+		scopes: scopesHeader === null
+			? undefined
+			: scopesHeader.split(',').map(scope => scope.trim()).filter(scope => scope.length > 0),
+		expiresAt: parseTokenExpiration(headers.get('github-authentication-token-expiration'))
+	};
+}
+
+function toRequestError(err: unknown): GitHubRequestError {
+	if (err instanceof GitHubRequestError) {
+		return err;
+	}
+	const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+	return new GitHubRequestError('NETWORK_ERROR', `Network error: ${errorMessage}`);
 }
 
 /**
  * Validates GitHub Personal Access Token (PAT) by making a GET request to /user endpoint
  * @param pat - GitHub Personal Access Token
+ * @param connection - GitHub host to talk to (github.com or Enterprise Server)
  * @returns AuthenticationResult with user info if valid, error if invalid
  */
-export async function validatePAT(pat: string): Promise<AuthenticationResult> {
+export async function validatePAT(
+	pat: string,
+	connection: GitHubConnection = DEFAULT_GITHUB_CONNECTION
+): Promise<AuthenticationResult> {
 	try {
-		const response = await fetch('https://api.github.com/user', {
-			method: 'GET',
-			headers: {
-				'Authorization': `token ${pat}`,
-				'User-Agent': 'Avro-VSCode-Extension',
-				'Accept': 'application/vnd.github.v3+json'
-			}
-		});
+		const response = await new GitHubClient(pat, connection).request<GitHubUser>('/user');
 
 		if (response.status === 200) {
-			const user = (await response.json()) as GitHubUser;
 			return {
 				success: true,
-				user
+				user: response.data,
+				tokenInfo: readTokenInfo(pat, response.headers)
 			};
-		} else if (response.status === 401) {
+		} else if (response.errorCode === 'UNAUTHORIZED') {
 			return {
 				success: false,
 				error: 'Invalid or expired Personal Access Token',
-				errorCode: '401'
+				errorCode: 'INVALID_TOKEN'
+			};
+		} else if (response.errorCode === 'RATE_LIMITED') {
+			return {
+				success: false,
+				error: describeRateLimit(response.rateLimit),
+				errorCode: 'RATE_LIMITED'
 			};
 		} else {
 			return {
 				success: false,
 				error: `GitHub API returned status ${response.status}`,
-				errorCode: response.status.toString()
+				errorCode: response.errorCode === 'SERVER_ERROR' ? 'SERVER_ERROR' : 'UNKNOWN'
 			};
 		}
 	} catch (err) {
-		const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+		const error = toRequestError(err);
 		return {
 			success: false,
-			error: `Network error: ${errorMessage}`,
-			errorCode: 'NETWORK_ERROR'
+			error: error.message,
+			errorCode: toAuthErrorCode(error.code)
 		};
 	}
 }
@@ -77,68 +281,241 @@ export async function validatePAT(pat: string): Promise<AuthenticationResult> {
  * @param org - Organization name
  * @param username - GitHub username
  * @param requiredRoles - Array of required roles ('admin', 'member')
+ * @param connection - GitHub host to talk to (github.com or Enterprise Server)
  * @returns RoleVerificationResult indicating if user has access
  */
 export async function verifyUserRole(
 	pat: string,
 	org: string,
 	username: string,
-	requiredRoles: ('admin' | 'member')[] = ['member']
+	requiredRoles: ('admin' | 'member')[] = ['member'],
+	connection: GitHubConnection = DEFAULT_GITHUB_CONNECTION
 ): Promise<RoleVerificationResult> {
+	const client = new GitHubClient(pat, connection);
 	try {
-		const response = await fetch(`https://api.github.com/orgs/${org}/memberships/${username}`, {
-			method: 'GET',
-			headers: {
-				'Authorization': `token ${pat}`,
-				'User-Agent': 'Avro-VSCode-Extension',
-				'Accept': 'application/vnd.github.v3+json'
-			}
-		});
+		const response = await client.request<GitHubOrgMembership>(
+			`/orgs/${encodeURIComponent(org)}/memberships/${encodeURIComponent(username)}`
+		);
 
 		if (response.status === 200) {
-			const membership = (await response.json()) as GitHubOrgMembership;
-			
-			// Check if user is in required roles and is active
-			const hasRequiredRole = requiredRoles.includes(membership.role);
-			const isActive = membership.state === 'active';
-			const hasAccess = hasRequiredRole && isActive;
+			const membership = response.data;
+
+			if (membership.state === 'pending') {
+				return {
+					success: true,
+					hasAccess: false,
+					membership,
+					error: `You have a pending invitation to the "${org}" organization. Accept it to continue.`,
+					errorCode: 'PENDING_INVITATION'
+				};
+			}
+
+			// Check if user is in required roles
+			if (!requiredRoles.includes(membership.role)) {
+				return {
+					success: true,
+					hasAccess: false,
+					membership,
+					error: `Your role "${membership.role}" in "${org}" does not grant access (requires ${requiredRoles.join(' or ')})`,
+					errorCode: 'INSUFFICIENT_ROLE'
+				};
+			}
 
 			return {
 				success: true,
-				hasAccess,
+				hasAccess: true,
 				membership
 			};
-		} else if (response.status === 404) {
+		} else if (response.errorCode === 'NOT_FOUND') {
+			// The membership endpoint answers 404 for unknown organizations and non-members alike
+			const orgExists = await organizationExists(client, org);
 			return {
 				success: true,
 				hasAccess: false,
-				error: 'User is not a member of this organization'
+				error: orgExists
+					? 'User is not a member of this organization'
+					: `Organization "${org}" was not found`,
+				errorCode: orgExists ? 'NOT_A_MEMBER' : 'ORG_NOT_FOUND'
 			};
-		} else if (response.status === 401) {
+		} else if (response.errorCode === 'UNAUTHORIZED') {
 			return {
 				success: false,
 				hasAccess: false,
-				error: 'Invalid Personal Access Token or insufficient permissions'
+				error: 'Invalid Personal Access Token or insufficient permissions',
+				errorCode: 'INVALID_TOKEN'
 			};
-		} else if (response.status === 403) {
+		} else if (response.errorCode === 'RATE_LIMITED') {
 			return {
 				success: false,
 				hasAccess: false,
-				error: 'Insufficient permissions. PAT must have read:org or admin:org scope'
+				error: describeRateLimit(response.rateLimit),
+				errorCode: 'RATE_LIMITED'
+			};
+		} else if (response.errorCode === 'FORBIDDEN') {
+			const sso = parseSsoHeader(response.headers.get('x-github-sso'));
+			if (sso.required) {
+				return {
+					success: false,
+					hasAccess: false,
+					error: `The "${org}" organization enforces SAML single sign-on and this token is not authorized for it`,
+					errorCode: 'SSO_REQUIRED',
+					ssoUrl: sso.url
+				};
+			}
+			return {
+				success: false,
+				hasAccess: false,
+				error: 'Insufficient permissions. PAT must have read:org or admin:org scope',
+				errorCode: 'MISSING_SCOPE'
 			};
 		} else {
 			return {
 				success: false,
 				hasAccess: false,
-				error: `GitHub API returned status ${response.status}`
+				error: `GitHub API returned status ${response.status}`,
+				errorCode: response.errorCode === 'SERVER_ERROR' ? 'SERVER_ERROR' : 'UNKNOWN'
 			};
 		}
 	} catch (err) {
-		const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+		const error = toRequestError(err);
 		return {
 			success: false,
 			hasAccess: false,
-			error: `Network error: ${errorMessage}`
+			error: error.message,
+			errorCode: toAuthErrorCode(error.code)
+		};
+	}
+}
+
+/**
+ * Checks whether an organization is visible to the token, to tell "not found" from "not a member"
+ */
+async function organizationExists(client: GitHubClient, org: string): Promise<boolean> {
+	try {
+		const response = await client.request(`/orgs/${encodeURIComponent(org)}`);
+		return response.errorCode !== 'NOT_FOUND';
+	} catch {
+		// Unknown, assume the organization exists so the user gets membership guidance
+		return true;
+	}
+}
+
+/**
+ * Checks that the token carries the permissions needed to read the user's membership in the organization,
+ * so a missing permission is reported as such instead of as a confusing 403 or 404 from the role check.
+ * Classic and OAuth tokens are checked against their scopes. Fine-grained tokens report no scopes, so the
+ * membership endpoint is probed and the permissions GitHub says it accepts are reported as missing on 403.
+ * @param pat - GitHub token
+ * @param org - Organization name
+ * @param username - GitHub username of the token owner
+ * @param tokenInfo - Token metadata from validatePAT
+ * @param connection - GitHub host to talk to (github.com or Enterprise Server)
+ */
+export async function checkTokenPermissions(
+	pat: string,
+	org: string,
+	username: string,
+	tokenInfo: TokenInfo,
+	connection: GitHubConnection = DEFAULT_GITHUB_CONNECTION
+): Promise<PermissionCheckResult> {
+	if (tokenInfo.scopes) {
+		return {
+			success: true,
+			missingPermissions: hasOrgReadScope(tokenInfo.scopes) ? [] : ['read:org scope']
+		};
+	}
+
+	try {
+		const response = await new GitHubClient(pat, connection).request<GitHubOrgMembership>(
+			`/orgs/${encodeURIComponent(org)}/memberships/${encodeURIComponent(username)}`
+		);
+
+		if (response.errorCode === 'FORBIDDEN' && !parseSsoHeader(response.headers.get('x-github-sso')).required) {
+			const accepted = parseAcceptedPermissions(response.headers.get('x-accepted-github-permissions'));
+			return {
+				success: true,
+				missingPermissions: accepted.length > 0 ? accepted : [`${FINE_GRAINED_PERMISSION_LABELS.members}: read`]
+			};
+		} else if (response.errorCode === 'RATE_LIMITED') {
+			return {
+				success: false,
+				missingPermissions: [],
+				error: describeRateLimit(response.rateLimit),
+				errorCode: 'RATE_LIMITED'
+			};
+		}
+
+		// Everything else (including SSO and 404) is classified by the role check
+		return { success: true, missingPermissions: [] };
+	} catch (err) {
+		const error = toRequestError(err);
+		return {
+			success: false,
+			missingPermissions: [],
+			error: error.message,
+			errorCode: toAuthErrorCode(error.code)
+		};
+	}
+}
+
+/**
+ * Accepts a pending invitation to an organization for the token's user
+ * (PATCH /user/memberships/orgs/{org} with state "active")
+ * @param pat - GitHub Personal Access Token of the invited user
+ * @param org - Organization name
+ * @param connection - GitHub host to talk to (github.com or Enterprise Server)
+ */
+export async function acceptOrgInvitation(
+	pat: string,
+	org: string,
+	connection: GitHubConnection = DEFAULT_GITHUB_CONNECTION
+): Promise<{ success: boolean; membership?: GitHubOrgMembership; error?: string; errorCode?: AuthErrorCode }> {
+	const client = new GitHubClient(pat, connection);
+	try {
+		const response = await client.request<GitHubOrgMembership>(
+			`/user/memberships/orgs/${encodeURIComponent(org)}`,
+			{ method: 'PATCH', body: { state: 'active' } }
+		);
+
+		if (response.status === 200) {
+			return { success: true, membership: response.data };
+		} else if (response.errorCode === 'NOT_FOUND') {
+			return {
+				success: false,
+				error: `No invitation to the "${org}" organization was found for this account`,
+				errorCode: 'NOT_A_MEMBER'
+			};
+		} else if (response.errorCode === 'UNAUTHORIZED') {
+			return {
+				success: false,
+				error: 'Invalid Personal Access Token or insufficient permissions',
+				errorCode: 'INVALID_TOKEN'
+			};
+		} else if (response.errorCode === 'RATE_LIMITED') {
+			return {
+				success: false,
+				error: describeRateLimit(response.rateLimit),
+				errorCode: 'RATE_LIMITED'
+			};
+		} else if (response.errorCode === 'FORBIDDEN') {
+			return {
+				success: false,
+				error: 'This token is not allowed to accept organization invitations. Accept the invitation on GitHub instead',
+				errorCode: 'MISSING_SCOPE'
+			};
+		} else {
+			return {
+				success: false,
+				error: `GitHub API returned status ${response.status}`,
+				errorCode: response.errorCode === 'SERVER_ERROR' ? 'SERVER_ERROR' : 'UNKNOWN'
+			};
+		}
+	} catch (err) {
+		const error = toRequestError(err);
+		return {
+			success: false,
+			error: error.message,
+			errorCode: toAuthErrorCode(error.code)
 		};
 	}
 }
@@ -146,36 +523,79 @@ export async function verifyUserRole(
 /**
  * Complete authentication workflow:
  * 1. Validates PAT
- * 2. Verifies user role in organization
- * 3. Returns success only if both checks pass
+ * 2. Checks the token has the permissions needed for the organization
+ * 3. Verifies user role in organization
+ * 4. Returns success only if all checks pass
  */
 export async function authenticateUser(
 	pat: string,
 	org: string,
-	requiredRoles: ('admin' | 'member')[] = ['member']
-): Promise<{ success: boolean; user?: GitHubUser; role?: 'admin' | 'member'; error?: string }> {
+	requiredRoles: ('admin' | 'member')[] = ['member'],
+	connection: GitHubConnection = DEFAULT_GITHUB_CONNECTION
+): Promise<{
+	success: boolean;
+	user?: GitHubUser;
+	role?: 'admin' | 'member';
+	tokenInfo?: TokenInfo;
+	error?: string;
+	errorCode?: AuthErrorCode;
+	ssoUrl?: string;
+	/** Set with MISSING_SCOPE when the missing permissions are known */
+	missingPermissions?: string[];
+}> {
 	// Step 1: Validate PAT
-	const patResult = await validatePAT(pat);
+	const patResult = await validatePAT(pat, connection);
 	if (!patResult.success || !patResult.user) {
 		return {
 			success: false,
-			error: patResult.error || 'Failed to validate PAT'
+			error: patResult.error || 'Failed to validate PAT',
+			errorCode: patResult.errorCode
 		};
 	}
 
-	// Step 2: Verify role in organization
-	const roleResult = await verifyUserRole(pat, org, patResult.user.login, requiredRoles);
+	// Step 2: Check token permissions
+	const tokenInfo = patResult.tokenInfo ?? { kind: getTokenKind(pat) };
+	const permissionResult = await checkTokenPermissions(pat, org, patResult.user.login, tokenInfo, connection);
+	if (!permissionResult.success) {
+		return {
+			success: false,
+			tokenInfo,
+			error: permissionResult.error || 'Failed to check token permissions',
+			errorCode: permissionResult.errorCode
+		};
+	}
+	if (permissionResult.missingPermissions.length > 0) {
+		return {
+			success: false,
+			tokenInfo,
+			error: `Your ${tokenInfo.kind === 'fine-grained' ? 'fine-grained ' : ''}token is missing permissions for "${org}": ${permissionResult.missingPermissions.join(', ')}`,
+			errorCode: 'MISSING_SCOPE',
+			missingPermissions: permissionResult.missingPermissions
+		};
+	}
+
+	// Step 3: Verify role in organization
+	const roleResult = await verifyUserRole(pat, org, patResult.user.login, requiredRoles, connection);
 	if (!roleResult.success) {
 		return {
 			success: false,
-			error: roleResult.error || 'Failed to verify user role'
+			tokenInfo: patResult.tokenInfo,
+			error: roleResult.error || 'Failed to verify user role',
+			errorCode: roleResult.errorCode,
+			ssoUrl: roleResult.ssoUrl
 		};
 	}
 
 	if (!roleResult.hasAccess) {
+		let error = roleResult.error || 'User does not have the required role in the organization';
+		if (roleResult.errorCode === 'NOT_A_MEMBER' && tokenInfo.kind === 'fine-grained') {
+			error += `. Fine-grained tokens only see organizations selected as their resource owner, check that "${org}" is selected`;
+		}
 		return {
 			success: false,
-			error: roleResult.error || 'User does not have the required role in the organization'
+			tokenInfo: patResult.tokenInfo,
+			error,
+			errorCode: roleResult.errorCode
 		};
 	}
 
@@ -183,6 +603,7 @@ export async function authenticateUser(
 	return {
 		success: true,
 		user: patResult.user,
-		role: roleResult.membership?.role
+		role: roleResult.membership?.role,
+		tokenInfo: patResult.tokenInfo
 	};
 }
@@ -0,0 +1,328 @@
+import * as crypto from 'crypto';
+import {
+	GitHubConnection,
+	DEFAULT_GITHUB_CONNECTION,
+	CancellationSignal,
+	GitHubResponse,
+	RequestCancelledError,
+	RequestTimeoutError,
+	apiUrl,
+	githubFetch
+} from './http';
+
+/**
+ * Transport-level failure kinds reported by the GitHub client
+ */
+export type GitHubErrorCode =
+	| 'UNAUTHORIZED'
+	| 'FORBIDDEN'
+	| 'NOT_FOUND'
+	| 'RATE_LIMITED'
+	| 'SERVER_ERROR'
+	| 'HTTP_ERROR'
+	| 'TIMEOUT'
+	| 'CANCELLED'
+	| 'NETWORK_ERROR';
+
+export interface RateLimitInfo {
+	limit?: number;
+	remaining?: number;
+	resetAt?: Date;
+	/** Seconds to wait before retrying, from Retry-After */
+	retryAfter?: number;
+}
+
+export interface GitHubClientResponse<T> {
+	status: number;
+	headers: { get(name: string): string | null };
+	data: T;
+	rateLimit: RateLimitInfo;
+	/** True when GitHub answered 304 Not Modified and the cached body was reused */
+	fromCache: boolean;
+	/** Set for non-2xx responses */
+	errorCode?: GitHubErrorCode;
+}
+
+/**
+ * Thrown when no HTTP response could be obtained (network failure, timeout, cancellation)
+ */
+export class GitHubRequestError extends Error {
+	constructor(
+		public readonly code: GitHubErrorCode,
+		message: string
+	) {
+		super(message);
+		this.name = 'GitHubRequestError';
+	}
+}
+
+export interface GitHubClientRequestOptions {
+	method?: string;
+	body?: unknown;
+	/** Accept header, defaults to the REST v3 media type */
+	accept?: string;
+	cancellation?: CancellationSignal;
+	/** Per-attempt timeout, defaults to 15 seconds */
+	timeoutMs?: number;
+	/** Retries on 5xx and secondary rate limits, defaults to 3 (network errors are retried once) */
+	maxRetries?: number;
+	/** Send If-None-Match for GET requests and reuse cached bodies on 304, defaults to true */
+	useCache?: boolean;
+}
+
+const DEFAULT_TIMEOUT_MS = 15 * 1000;
+const DEFAULT_MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 1000;
+/** Never wait longer than this for a retry, report RATE_LIMITED instead */
+const MAX_RETRY_DELAY_MS = 60 * 1000;
+const MAX_CACHE_ENTRIES = 50;
+
+interface CacheEntry {
+	etag: string;
+	body: string;
+	status: number;
+}
+
+// Shared by all clients, keyed by token hash and URL so accounts never see each other's data
+const responseCache = new Map<string, CacheEntry>();
+
+/**
+ * Drop all cached responses (e.g. after logout)
+ */
+export function clearGitHubCache(): void {
+	responseCache.clear();
+}
+
+/**
+ * Whether the failure is likely temporary and the token should not be considered invalid
+ */
+export function isTransientError(code: GitHubErrorCode | string | undefined): boolean {
+	return code === 'NETWORK_ERROR' || code === 'TIMEOUT' || code === 'RATE_LIMITED' || code === 'SERVER_ERROR';
+}
+
+/**
+ * Reads the X-RateLimit-* and Retry-After headers
+ */
+export function readRateLimit(headers: { get(name: string): string | null }): RateLimitInfo {
+	const toNumber = (value: string | null) => {
+		if (value === null) {
+			return undefined;
+		}
+		const parsed = Number(value);
+		return isNaN(parsed) ? undefined : parsed;
+	};
+	const reset = toNumber(headers.get('x-ratelimit-reset'));
+	return {
+		limit: toNumber(headers.get('x-ratelimit-limit')),
+		remaining: toNumber(headers.get('x-ratelimit-remaining')),
+		resetAt: reset !== undefined ? new Date(reset * 1000) : undefined,
+		retryAfter: toNumber(headers.get('retry-after'))
+	};
+}
+
+/**
+ * Maps an HTTP status to a GitHubErrorCode, distinguishing rate limits from permission errors
+ */
+export function errorCodeForStatus(status: number, rateLimit: RateLimitInfo, body = ''): GitHubErrorCode | undefined {
+	if (status < 400) {
+		return undefined;
+	}
+	if (status === 429 || (status === 403 && isRateLimited(rateLimit, body))) {
+		return 'RATE_LIMITED';
+	}
+	if (status === 401) {
+		return 'UNAUTHORIZED';
+	}
+	if (status === 403) {
+		return 'FORBIDDEN';
+	}
+	if (status === 404) {
+		return 'NOT_FOUND';
+	}
+	if (status >= 500) {
+		return 'SERVER_ERROR';
+	}
+	return 'HTTP_ERROR';
+}
+
+/**
+ * Describes a rate limit for error messages
+ */
+export function describeRateLimit(rateLimit: RateLimitInfo): string {
+	if (rateLimit.retryAfter !== undefined) {
+		return `GitHub API rate limit exceeded, retry in ${rateLimit.retryAfter}s`;
+	}
+	if (rateLimit.resetAt) {
+		return `GitHub API rate limit exceeded, resets at ${rateLimit.resetAt.toLocaleTimeString()}`;
+	}
+	return 'GitHub API rate limit exceeded';
+}
+
+function isRateLimited(rateLimit: RateLimitInfo, body: string): boolean {
+	return rateLimit.remaining === 0
+		|| rateLimit.retryAfter !== undefined
+		|| /rate limit/i.test(body);
+}
+
+function delay(ms: number, cancellation?: CancellationSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		const listener = cancellation?.onCancellationRequested?.(() => {
+			clearTimeout(timer);
+			reject(new RequestCancelledError());
+		});
+		const timer = setTimeout(() => {
+			listener?.dispose();
+			resolve();
+		}, ms);
+	});
+}
+
+/**
+ * GitHub REST client shared by the auth module: common headers, timeouts, cancellation,
+ * exponential backoff on 5xx and secondary rate limits, and ETag based conditional requests.
+ */
+export class GitHubClient {
+	constructor(
+		private readonly token: string | undefined,
+		private readonly connection: GitHubConnection = DEFAULT_GITHUB_CONNECTION
+	) {}
+
+	/**
+	 * Performs a REST API request. Resolves for every HTTP status (check errorCode),
+	 * rejects with GitHubRequestError when no response could be obtained.
+	 * @param path - API path starting with a slash, e.g. /user
+	 */
+	async request<T>(path: string, options: GitHubClientRequestOptions = {}): Promise<GitHubClientResponse<T>> {
+		const url = apiUrl(this.connection, path);
+		const method = options.method ?? 'GET';
+		const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+		const cacheKey = method === 'GET' && options.useCache !== false ? this.cacheKey(url) : undefined;
+
+		for (let attempt = 0; ; attempt++) {
+			const cached = cacheKey ? responseCache.get(cacheKey) : undefined;
+			const headers: Record<string, string> = {
+				'User-Agent': 'Avro-VSCode-Extension',
+				'Accept': options.accept ?? 'application/vnd.github.v3+json'
+			};
+			if (this.token) {
+				headers['Authorization'] = `token ${this.token}`;
+			}
+			if (cached) {
+				headers['If-None-Match'] = cached.etag;
+			}
+			if (options.body !== undefined) {
+				headers['Content-Type'] = 'application/json';
+			}
+
+			let response: GitHubResponse;
+			try {
+				response = await githubFetch(url, {
+					method,
+					headers,
+					body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+					timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+					cancellation: options.cancellation
+				}, this.connection);
+			} catch (err) {
+				const error = this.toRequestError(err);
+				// A single retry covers dropped connections without stalling when offline
+				if (error.code === 'NETWORK_ERROR' && attempt < Math.min(maxRetries, 1)) {
+					await this.backoff(attempt, undefined, options.cancellation);
+					continue;
+				}
+				throw error;
+			}
+
+			const rateLimit = readRateLimit(response.headers);
+
+			if (response.status === 304 && cached) {
+				return {
+					status: cached.status,
+					headers: response.headers,
+					data: JSON.parse(cached.body) as T,
+					rateLimit,
+					fromCache: true
+				};
+			}
+
+			const body = await response.text();
+			const errorCode = errorCodeForStatus(response.status, rateLimit, body);
+			const retryable = errorCode === 'SERVER_ERROR'
+				|| (errorCode === 'RATE_LIMITED' && rateLimit.remaining !== 0);
+			if (retryable && attempt < maxRetries) {
+				const waited = await this.backoff(attempt, rateLimit.retryAfter, options.cancellation);
+				if (waited) {
+					continue;
+				}
+			}
+
+			const etag = response.headers.get('etag');
+			if (cacheKey && etag && response.status === 200) {
+				this.storeInCache(cacheKey, { etag, body, status: response.status });
+			}
+
+			return {
+				status: response.status,
+				headers: response.headers,
+				data: (body ? this.parseBody(body) : undefined) as T,
+				rateLimit,
+				fromCache: false,
+				errorCode
+			};
+		}
+	}
+
+	/**
+	 * Waits before the next attempt. Returns false when the wait would be too long.
+	 */
+	private async backoff(attempt: number, retryAfterSeconds: number | undefined, cancellation?: CancellationSignal): Promise<boolean> {
+		const exponential = BASE_BACKOFF_MS * Math.pow(2, attempt) + Math.floor(Math.random() * BASE_BACKOFF_MS);
+		const waitMs = retryAfterSeconds !== undefined ? retryAfterSeconds * 1000 : exponential;
+		if (waitMs > MAX_RETRY_DELAY_MS) {
+			return false;
+		}
+		try {
+			await delay(waitMs, cancellation);
+		} catch (err) {
+			throw this.toRequestError(err);
+		}
+		return true;
+	}
+
+	private parseBody(body: string): unknown {
+		try {
+			return JSON.parse(body);
+		} catch {
+			return body;
+		}
+	}
+
+	private toRequestError(err: unknown): GitHubRequestError {
+		if (err instanceof GitHubRequestError) {
+			return err;
+		}
+		if (err instanceof RequestCancelledError) {
+			return new GitHubRequestError('CANCELLED', 'Request cancelled');
+		}
+		if (err instanceof RequestTimeoutError) {
+			return new GitHubRequestError('TIMEOUT', `Network error: ${err.message}`);
+		}
+		const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+		return new GitHubRequestError('NETWORK_ERROR', `Network error: ${errorMessage}`);
+	}
+
+	private cacheKey(url: string): string {
+		const tokenHash = crypto.createHash('sha256').update(this.token ?? '').digest('hex').slice(0, 16);
+		return `${tokenHash} ${url}`;
+	}
+
+	private storeInCache(key: string, entry: CacheEntry): void {
+		responseCache.delete(key);
+		responseCache.set(key, entry);
+		// Map iteration order is insertion order, so the first key is the least recently stored
+		while (responseCache.size > MAX_CACHE_ENTRIES) {
+			const oldest = responseCache.keys().next().value as string;
+			responseCache.delete(oldest);
+		}
+	}
+}
@@ -0,0 +1,233 @@
+import {
+	GitHubConnection,
+	DEFAULT_GITHUB_CONNECTION,
+	CancellationSignal,
+	RequestCancelledError,
+	RequestTimeoutError,
+	githubFetch,
+	webUrl
+} from './http';
+
+export interface DeviceCodeResponse {
+	device_code: string;
+	user_code: string;
+	verification_uri: string;
+	expires_in: number;
+	interval: number;
+}
+
+export interface DeviceCodeResult {
+	success: boolean;
+	deviceCode?: DeviceCodeResponse;
+	error?: string;
+	errorCode?: string;
+}
+
+export interface DeviceFlowResult {
+	success: boolean;
+	accessToken?: string;
+	scope?: string;
+	error?: string;
+	errorCode?: string;
+}
+
+interface AccessTokenResponse {
+	access_token?: string;
+	token_type?: string;
+	scope?: string;
+	error?: string;
+	error_description?: string;
+	interval?: number;
+}
+
+/** Extra wait GitHub asks for on every slow_down response */
+const SLOW_DOWN_INCREMENT_SECONDS = 5;
+/** Device code and token requests that take longer are aborted */
+const REQUEST_TIMEOUT_MS = 15 * 1000;
+
+/**
+ * Waits for the given time, or until cancellation is requested
+ */
+function delay(ms: number, cancellation?: CancellationSignal): Promise<void> {
+	return new Promise((resolve) => {
+		const timer = setTimeout(done, ms);
+		const listener = cancellation?.onCancellationRequested?.(done);
+		function done() {
+			clearTimeout(timer);
+			listener?.dispose();
+			resolve();
+		}
+	});
+}
+
+/**
+ * Starts the OAuth device authorization flow by requesting a device and user code
+ * @param clientId - Client ID of the GitHub OAuth App
+ * @param scopes - OAuth scopes to request
+ * @param connection - GitHub host to talk to (github.com, Enterprise Server or a mock server)
+ * @returns DeviceCodeResult with the codes to show to the user
+ */
+export async function requestDeviceCode(
+	clientId: string,
+	scopes: string[] = ['read:org'],
+	connection: GitHubConnection = DEFAULT_GITHUB_CONNECTION
+): Promise<DeviceCodeResult> {
+	try {
+		const response = await githubFetch(webUrl(connection, '/login/device/code'), {
+			method: 'POST',
+			headers: {
+				'User-Agent': 'Avro-VSCode-Extension',
+				'Accept': 'application/json',
+				'Content-Type': 'application/x-www-form-urlencoded'
+			},
+			body: new URLSearchParams({ client_id: clientId, scope: scopes.join(' ') }).toString(),
+			timeoutMs: REQUEST_TIMEOUT_MS
+		}, connection);
+
+		if (response.status !== 200) {
+			return {
+				success: false,
+				error: `GitHub returned status ${response.status} when requesting a device code`,
+				errorCode: response.status.toString()
+			};
+		}
+
+		const body = (await response.json()) as Partial<DeviceCodeResponse> & AccessTokenResponse;
+		if (body.error || !body.device_code || !body.user_code || !body.verification_uri) {
+			return {
+				success: false,
+				error: body.error_description || body.error || 'Invalid device code response from GitHub',
+				errorCode: body.error || 'INVALID_RESPONSE'
+			};
+		}
+
+		return {
+			success: true,
+			deviceCode: {
+				device_code: body.device_code,
+				user_code: body.user_code,
+				verification_uri: body.verification_uri,
+				expires_in: body.expires_in ?? 900,
+				interval: body.interval ?? 5
+			}
+		};
+	} catch (err) {
+		const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+		return {
+			success: false,
+			error: `Network error: ${errorMessage}`,
+			errorCode: 'NETWORK_ERROR'
+		};
+	}
+}
+
+/**
+ * Polls GitHub until the user has entered the user code, the code expires or polling is cancelled.
+ * Honors authorization_pending, slow_down and expired_token responses. A poll that times out is retried.
+ * @param clientId - Client ID of the GitHub OAuth App
+ * @param deviceCode - Response returned by requestDeviceCode
+ * @param connection - GitHub host to talk to
+ * @param cancellation - Optional signal to stop polling
+ * @param requestTimeoutMs - Polls without a response after this long are retried
+ * @returns DeviceFlowResult with the access token once authorized
+ */
+export async function pollForAccessToken(
+	clientId: string,
+	deviceCode: DeviceCodeResponse,
+	connection: GitHubConnection = DEFAULT_GITHUB_CONNECTION,
+	cancellation?: CancellationSignal,
+	requestTimeoutMs = REQUEST_TIMEOUT_MS
+): Promise<DeviceFlowResult> {
+	const expiresAt = Date.now() + deviceCode.expires_in * 1000;
+	let intervalSeconds = deviceCode.interval;
+
+	while (Date.now() < expiresAt) {
+		await delay(intervalSeconds * 1000, cancellation);
+
+		if (cancellation?.isCancellationRequested) {
+			return { success: false, error: 'Cancelled', errorCode: 'CANCELLED' };
+		}
+
+		let body: AccessTokenResponse;
+		try {
+			const response = await githubFetch(webUrl(connection, '/login/oauth/access_token'), {
+				method: 'POST',
+				headers: {
+					'User-Agent': 'Avro-VSCode-Extension',
+					'Accept': 'application/json',
+					'Content-Type': 'application/x-www-form-urlencoded'
+				},
+				body: new URLSearchParams({
+					client_id: clientId,
+					device_code: deviceCode.device_code,
+					grant_type: 'urn:ietf:params:oauth:grant-type:device_code'
+				}).toString(),
+				timeoutMs: requestTimeoutMs,
+				cancellation
+			}, connection);
+
+			if (response.status !== 200) {
+				return {
+					success: false,
+					error: `GitHub returned status ${response.status} while waiting for authorization`,
+					errorCode: response.status.toString()
+				};
+			}
+
+			body = (await response.json()) as AccessTokenResponse;
+		} catch (err) {
+			if (err instanceof RequestCancelledError) {
+				return { success: false, error: 'Cancelled', errorCode: 'CANCELLED' };
+			}
+			if (err instanceof RequestTimeoutError) {
+				continue;
+			}
+			const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+			return {
+				success: false,
+				error: `Network error: ${errorMessage}`,
+				errorCode: 'NETWORK_ERROR'
+			};
+		}
+
+		if (body.access_token) {
+			return {
+				success: true,
+				accessToken: body.access_token,
+				scope: body.scope
+			};
+		}
+
+		switch (body.error) {
+			case 'authorization_pending':
+				continue;
+			case 'slow_down':
+				intervalSeconds = body.interval ?? intervalSeconds + SLOW_DOWN_INCREMENT_SECONDS;
+				continue;
+			case 'expired_token':
+				return {
+					success: false,
+					error: 'The device code has expired. Please start the sign-in again.',
+					errorCode: 'expired_token'
+				};
+			case 'access_denied':
+				return {
+					success: false,
+					error: 'Authorization was denied in the browser',
+					errorCode: 'access_denied'
+				};
+			default:
+				return {
+					success: false,
+					error: body.error_description || body.error || 'Unexpected response from GitHub',
+					errorCode: body.error || 'INVALID_RESPONSE'
+				};
+		}
+	}
+
+	return {
+		success: false,
+		error: 'The device code has expired. Please start the sign-in again.',
+		errorCode: 'expired_token'
+	};
+}
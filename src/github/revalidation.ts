@@ -0,0 +1,199 @@
+import * as vscode from 'vscode';
+import { authenticateUser, hasOrgReadScope, isTransientAuthError, AuthErrorCode, OrgRole, TokenInfo } from './auth';
+import { apiHost } from './http';
+import { SecureStorage } from '../utils/secureStorage';
+import { getAccessConfig, getGitHubConnection, findOrganizationAccess } from '../utils/config';
+
+/** Minimum time between two revalidations triggered by window focus */
+const FOCUS_THROTTLE_MS = 60 * 1000;
+
+/** How often to retry while the session is offline */
+const OFFLINE_RETRY_MS = 30 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RevalidationHandlers {
+	/** Whether there is an authenticated session to revalidate, including one kept while offline */
+	isAuthenticated(): boolean;
+	/** Whether the session is kept offline because GitHub could not be reached */
+	isOffline(): boolean;
+	/** Called after a successful check, with the role GitHub currently reports (the cached role is already refreshed) */
+	onVerified(role: OrgRole | undefined): Promise<void>;
+	/**
+	 * Called when the token was revoked or the user lost the required role.
+	 * ssoUrl is set when the organization now requires the token to be authorized for SAML SSO.
+	 */
+	onAccessLost(reason: string, errorCode?: AuthErrorCode, ssoUrl?: string): Promise<void>;
+}
+
+/**
+ * Periodically re-runs authenticateUser for the active profile (on an interval and when the
+ * window regains focus), warns about expiring tokens and missing scopes and reports lost access.
+ * Transient errors (network, timeouts, rate limits) are ignored so a flaky connection never signs the user out.
+ * Offline sessions are retried more often so they are verified soon after connectivity returns.
+ */
+export class RevalidationService implements vscode.Disposable {
+	private timer: ReturnType<typeof setInterval> | undefined;
+	private offlineRetryTimer: ReturnType<typeof setTimeout> | undefined;
+	private disposables: vscode.Disposable[] = [];
+	private lastRun = 0;
+	private running: Promise<void> | undefined;
+	private warnedExpiry = new Set<string>();
+	private warnedScopes = new Set<string>();
+
+	constructor(
+		private readonly storage: SecureStorage,
+		private readonly handlers: RevalidationHandlers
+	) {
+		this.disposables.push(
+			vscode.window.onDidChangeWindowState((state) => {
+				if (state.focused && Date.now() - this.lastRun >= FOCUS_THROTTLE_MS) {
+					this.revalidate();
+				}
+			}),
+			vscode.workspace.onDidChangeConfiguration((e) => {
+				if (e.affectsConfiguration('avro.authentication.revalidationIntervalMinutes')) {
+					this.schedule();
+				}
+			})
+		);
+		this.schedule();
+	}
+
+	/**
+	 * Check the active profile now. Concurrent calls share the same check.
+	 */
+	revalidate(): Promise<void> {
+		if (!this.running) {
+			this.running = this.run().finally(() => {
+				this.running = undefined;
+			});
+		}
+		return this.running;
+	}
+
+	/**
+	 * Retry an offline session in 30 seconds (failed retries schedule the next one)
+	 */
+	scheduleOfflineRetry(): void {
+		if (this.offlineRetryTimer) {
+			clearTimeout(this.offlineRetryTimer);
+		}
+		this.offlineRetryTimer = setTimeout(() => {
+			this.offlineRetryTimer = undefined;
+			this.revalidate();
+		}, OFFLINE_RETRY_MS);
+	}
+
+	private schedule(): void {
+		if (this.timer) {
+			clearInterval(this.timer);
+			this.timer = undefined;
+		}
+
+		const minutes = vscode.workspace
+			.getConfiguration('avro.authentication')
+			.get<number>('revalidationIntervalMinutes', 15);
+		if (minutes > 0) {
+			this.timer = setInterval(() => this.revalidate(), minutes * 60 * 1000);
+		}
+	}
+
+	private async run(): Promise<void> {
+		if (!this.handlers.isAuthenticated()) {
+			return;
+		}
+		this.lastRun = Date.now();
+
+		const profile = await this.storage.getActiveProfile();
+		const pat = await this.storage.getPAT();
+		if (!profile || !pat) {
+			return;
+		}
+
+		// The API host changed, AuthService handles it once the settings change settles
+		const connection = getGitHubConnection();
+		if (profile.host !== apiHost(connection)) {
+			return;
+		}
+
+		const orgAccess = findOrganizationAccess(getAccessConfig(), profile.org);
+		if (!orgAccess) {
+			await this.handlers.onAccessLost(`Organization "${profile.org}" is no longer configured for Avro.`);
+			return;
+		}
+
+		const result = await authenticateUser(pat, orgAccess.name, orgAccess.requiredRoles, connection);
+
+		// The session may have changed while the request was in flight
+		if ((await this.storage.getActiveProfile())?.id !== profile.id || !this.handlers.isAuthenticated()) {
+			return;
+		}
+
+		if (result.tokenInfo) {
+			this.checkTokenInfo(profile.id, result.tokenInfo);
+		}
+
+		if (!result.success) {
+			if (isTransientAuthError(result.errorCode)) {
+				console.log(`Avro: Skipping revalidation, GitHub temporarily unavailable (${result.error})`);
+				if (this.handlers.isOffline()) {
+					this.scheduleOfflineRetry();
+				}
+				return;
+			}
+			await this.handlers.onAccessLost(result.error || 'Access to the organization was lost', result.errorCode, result.ssoUrl);
+			return;
+		}
+
+		if (result.role) {
+			await this.storage.storeRole(result.role);
+		}
+		await this.handlers.onVerified(result.role);
+	}
+
+	/**
+	 * Warn (once per session and profile) about tokens close to expiry or lacking read:org
+	 */
+	private checkTokenInfo(profileId: string, tokenInfo: TokenInfo): void {
+		const warningDays = vscode.workspace
+			.getConfiguration('avro.authentication')
+			.get<number>('expiryWarningDays', 7);
+
+		if (tokenInfo.expiresAt && !this.warnedExpiry.has(profileId)) {
+			const remainingMs = tokenInfo.expiresAt.getTime() - Date.now();
+			if (remainingMs <= warningDays * DAY_MS) {
+				this.warnedExpiry.add(profileId);
+				const days = Math.max(0, Math.ceil(remainingMs / DAY_MS));
+				vscode.window.showWarningMessage(
+					`Avro: Your GitHub token expires ${days === 0 ? 'today' : `in ${days} day${days === 1 ? '' : 's'}`} (${tokenInfo.expiresAt.toLocaleDateString()}). Create a new one and sign in again.`,
+					'Sign in'
+				).then(action => {
+					if (action === 'Sign in') {
+						vscode.commands.executeCommand('avro.authenticate');
+					}
+				});
+			}
+		}
+
+		if (!hasOrgReadScope(tokenInfo.scopes) && !this.warnedScopes.has(profileId)) {
+			this.warnedScopes.add(profileId);
+			vscode.window.showWarningMessage(
+				`Avro: Your GitHub token is missing the read:org scope (granted: ${tokenInfo.scopes?.join(', ') || 'none'}).`
+			);
+		}
+	}
+
+	dispose(): void {
+		if (this.timer) {
+			clearInterval(this.timer);
+			this.timer = undefined;
+		}
+		if (this.offlineRetryTimer) {
+			clearTimeout(this.offlineRetryTimer);
+			this.offlineRetryTimer = undefined;
+		}
+		this.disposables.forEach(disposable => disposable.dispose());
+		this.disposables = [];
+	}
+}
@@ -0,0 +1,65 @@
+import { GitHubConnection, DEFAULT_GITHUB_CONNECTION } from './http';
+import { GitHubClient, GitHubErrorCode, GitHubRequestError, describeRateLimit } from './client';
+
+export interface GitHubTeam {
+	id: number;
+	slug: string;
+	name: string;
+	organization: {
+		login: string;
+	};
+}
+
+export interface TeamMembershipResult {
+	success: boolean;
+	/** Teams of the user in the requested organization */
+	teams: GitHubTeam[];
+	error?: string;
+	errorCode?: GitHubErrorCode;
+}
+
+const TEAMS_PER_PAGE = 100;
+/** Stop paging after this many pages, nobody is in more than 1000 teams */
+const MAX_TEAM_PAGES = 10;
+
+/**
+ * Lists the teams the token's user belongs to in an organization (GET /user/teams, filtered by organization).
+ * Needs the read:org scope, or the "Members" organization permission (read) for fine-grained tokens.
+ * @param pat - GitHub Personal Access Token
+ * @param org - Organization name
+ * @param connection - GitHub host to talk to (github.com or Enterprise Server)
+ */
+export async function getUserTeams(
+	pat: string,
+	org: string,
+	connection: GitHubConnection = DEFAULT_GITHUB_CONNECTION
+): Promise<TeamMembershipResult> {
+	const client = new GitHubClient(pat, connection);
+	const teams: GitHubTeam[] = [];
+	try {
+		for (let page = 1; page <= MAX_TEAM_PAGES; page++) {
+			const response = await client.request<GitHubTeam[]>(`/user/teams?per_page=${TEAMS_PER_PAGE}&page=${page}`);
+			if (response.status !== 200 || !Array.isArray(response.data)) {
+				return {
+					success: false,
+					teams: [],
+					error: response.errorCode === 'RATE_LIMITED'
+						? describeRateLimit(response.rateLimit)
+						: `GitHub API returned status ${response.status} while listing teams`,
+					errorCode: response.errorCode ?? 'HTTP_ERROR'
+				};
+			}
+
+			teams.push(...response.data.filter(team => team.organization?.login.toLowerCase() === org.toLowerCase()));
+			if (response.data.length < TEAMS_PER_PAGE) {
+				break;
+			}
+		}
+		return { success: true, teams };
+	} catch (err) {
+		const error = err instanceof GitHubRequestError
+			? err
+			: new GitHubRequestError('NETWORK_ERROR', `Network error: ${err instanceof Error ? err.message : 'Unknown error'}`);
+		return { success: false, teams: [], error: error.message, errorCode: error.code };
+	}
+}
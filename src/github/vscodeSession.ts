@@ -0,0 +1,35 @@
+import * as vscode from 'vscode';
+import { GitHubConnection, DEFAULT_GITHUB_CONNECTION, isGitHubDotCom } from './http';
+
+/** Id of the built-in VS Code GitHub authentication provider */
+export const GITHUB_PROVIDER_ID = 'github';
+
+/** Id of the built-in provider for GitHub Enterprise Server (configured via github-enterprise.uri) */
+export const GITHUB_ENTERPRISE_PROVIDER_ID = 'github-enterprise';
+
+/** Scopes needed to read organization memberships */
+export const GITHUB_SESSION_SCOPES = ['read:org'];
+
+/**
+ * Returns the VS Code authentication provider matching the GitHub host
+ */
+export function getGitHubProviderId(connection: GitHubConnection = DEFAULT_GITHUB_CONNECTION): string {
+	return isGitHubDotCom(connection) ? GITHUB_PROVIDER_ID : GITHUB_ENTERPRISE_PROVIDER_ID;
+}
+
+/**
+ * Gets the GitHub session VS Code is signed in with
+ * @param createIfNone - Prompt the user to sign in (or grant read:org) when no session exists
+ * @param connection - GitHub host, used to pick the github or github-enterprise provider
+ * @returns The session, or undefined if there is none and createIfNone is false
+ */
+export async function getVSCodeGitHubSession(
+	createIfNone: boolean,
+	connection: GitHubConnection = DEFAULT_GITHUB_CONNECTION
+): Promise<vscode.AuthenticationSession | undefined> {
+	const providerId = getGitHubProviderId(connection);
+	if (createIfNone) {
+		return vscode.authentication.getSession(providerId, GITHUB_SESSION_SCOPES, { createIfNone: true });
+	}
+	return vscode.authentication.getSession(providerId, GITHUB_SESSION_SCOPES, { silent: true });
+}
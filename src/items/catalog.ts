@@ -0,0 +1,218 @@
+import { OrgRole } from '../github/auth';
+import { CancellationSignal } from '../github/http';
+
+/** Item types the Items Explorer has icons and menus for */
+export const CATALOG_ITEM_TYPES = ['folder', 'file', 'action', 'item'] as const;
+
+export type CatalogItemType = typeof CATALOG_ITEM_TYPES[number];
+
+/**
+ * An item as delivered by an item source. The catalog is a flat list, the tree is built from parentId.
+ */
+export interface CatalogItem {
+	id: string;
+	/** Id of the containing item, root items have none */
+	parentId?: string | null;
+	label: string;
+	description?: string;
+	type: CatalogItemType;
+	/** Minimum organization role needed to see and use the item */
+	requiredRole?: OrgRole;
+	/** Team permissions (avro.github.teamPermissions) needed to see and use the item */
+	permissions?: string[];
+	/** Text content of file items, opened through the avro: file system */
+	content?: string;
+	/** Free-form labels the Items Explorer can be filtered by */
+	tags?: string[];
+}
+
+/**
+ * Why loading the catalog failed
+ * - NOT_CONFIGURED: the selected source is missing its settings
+ * - UNAUTHORIZED: the source rejected the GitHub token
+ * - NETWORK: the source could not be reached
+ * - INVALID_RESPONSE: the source answered with something that is not a catalog
+ * - CANCELLED: a newer load replaced this one
+ * - UNKNOWN: any other failure
+ */
+export type ItemSourceErrorCode = 'NOT_CONFIGURED' | 'UNAUTHORIZED' | 'NETWORK' | 'INVALID_RESPONSE' | 'CANCELLED' | 'UNKNOWN';
+
+export interface ItemSourceResult {
+	success: boolean;
+	items: CatalogItem[];
+	/** Entries that were skipped because they do not match the schema */
+	warnings: string[];
+	error?: string;
+	errorCode?: ItemSourceErrorCode;
+	/** Setting to fix for NOT_CONFIGURED */
+	setting?: string;
+}
+
+/**
+ * Outcome of running an action item
+ */
+export interface ActionResult {
+	success: boolean;
+	/** What the action did, as reported by the source */
+	message?: string;
+	error?: string;
+	errorCode?: ItemSourceErrorCode;
+}
+
+/**
+ * One page of the children of a folder or of the root
+ */
+export interface ItemPageResult extends ItemSourceResult {
+	/** Passed to loadChildren for the next page, undefined on the last page */
+	nextCursor?: string;
+}
+
+/**
+ * Where the Items Explorer gets its items from
+ */
+export interface ItemSource {
+	/** Shown in placeholder nodes and messages, e.g. the endpoint or file path. Local changes are stored per description. */
+	readonly description: string;
+	/** Loads the whole catalog */
+	load(cancellation?: CancellationSignal): Promise<ItemSourceResult>;
+	/**
+	 * Loads one page of the children of a folder (root items when parentId is undefined) as it is expanded.
+	 * Sources without it are loaded at once with load().
+	 */
+	loadChildren?(parentId: string | undefined, cursor: string | undefined, cancellation?: CancellationSignal): Promise<ItemPageResult>;
+	/**
+	 * Loads a single item by id (no items when it does not exist), e.g. to open an item in a folder that was not expanded.
+	 * Only used together with loadChildren, other sources have every item once loaded.
+	 */
+	loadItem?(id: string, cancellation?: CancellationSignal): Promise<ItemSourceResult>;
+	/** Runs an action item. Sources without it cannot run actions. */
+	executeAction?(id: string, cancellation?: CancellationSignal): Promise<ActionResult>;
+}
+
+/**
+ * Validates a catalog document: either an array of items or an object with an items array.
+ * Invalid entries, duplicate ids and unknown parents are reported as warnings and skipped.
+ * @param checkParents - Skip items whose parent is not in the document, off for items stored on top of another catalog
+ */
+export function parseCatalog(data: unknown, checkParents = true): ItemSourceResult {
+	const entries = Array.isArray(data)
+		? data
+		: data && typeof data === 'object' && Array.isArray((data as { items?: unknown }).items)
+			? (data as { items: unknown[] }).items
+			: undefined;
+	if (!entries) {
+		return {
+			success: false,
+			items: [],
+			warnings: [],
+			error: 'Expected an array of items or an object with an "items" array',
+			errorCode: 'INVALID_RESPONSE'
+		};
+	}
+
+	const warnings: string[] = [];
+	const items: CatalogItem[] = [];
+	const ids = new Set<string>();
+	entries.forEach((entry, index) => {
+		const item = toCatalogItem(entry);
+		if (typeof item === 'string') {
+			warnings.push(`Item ${index}: ${item}`);
+		} else if (ids.has(item.id)) {
+			warnings.push(`Item ${index}: duplicate id "${item.id}"`);
+		} else {
+			ids.add(item.id);
+			items.push(item);
+		}
+	});
+
+	const valid = items.filter(item => {
+		if (checkParents && item.parentId && !ids.has(item.parentId)) {
+			warnings.push(`Item "${item.id}": unknown parent "${item.parentId}"`);
+			return false;
+		}
+		return true;
+	});
+
+	return { success: true, items: valid, warnings };
+}
+
+/**
+ * Validates one page of children: a catalog document with an optional "nextCursor".
+ * The parents are not part of the page, so they are not checked.
+ */
+export function parseItemPage(data: unknown): ItemPageResult {
+	const result = parseCatalog(data, false);
+	const nextCursor = data && typeof data === 'object' ? (data as { nextCursor?: unknown }).nextCursor : undefined;
+	return typeof nextCursor === 'string' && nextCursor ? { ...result, nextCursor } : result;
+}
+
+/**
+ * Converts one catalog entry, returning the problem when it does not match the schema
+ */
+function toCatalogItem(entry: unknown): CatalogItem | string {
+	if (!entry || typeof entry !== 'object') {
+		return 'not an object';
+	}
+	const raw = entry as Record<string, unknown>;
+	if (typeof raw.id !== 'string' || !raw.id.trim()) {
+		return 'missing "id"';
+	}
+	if (typeof raw.label !== 'string') {
+		return `"${raw.id}" is missing "label"`;
+	}
+	if (!CATALOG_ITEM_TYPES.includes(raw.type as CatalogItemType)) {
+		return `"${raw.id}" has unknown type "${String(raw.type)}" (allowed: ${CATALOG_ITEM_TYPES.join(', ')})`;
+	}
+	if (raw.parentId !== undefined && raw.parentId !== null && typeof raw.parentId !== 'string') {
+		return `"${raw.id}" has an invalid "parentId"`;
+	}
+	if (raw.requiredRole !== undefined && raw.requiredRole !== 'admin' && raw.requiredRole !== 'member') {
+		return `"${raw.id}" has unknown requiredRole "${String(raw.requiredRole)}"`;
+	}
+	if (raw.permissions !== undefined
+		&& (!Array.isArray(raw.permissions) || raw.permissions.some(permission => typeof permission !== 'string'))) {
+		return `"${raw.id}" has invalid "permissions"`;
+	}
+	if (raw.content !== undefined && typeof raw.content !== 'string') {
+		return `"${raw.id}" has invalid "content"`;
+	}
+	if (raw.tags !== undefined && (!Array.isArray(raw.tags) || raw.tags.some(tag => typeof tag !== 'string'))) {
+		return `"${raw.id}" has invalid "tags"`;
+	}
+
+	return {
+		id: raw.id,
+		parentId: raw.parentId as string | null | undefined,
+		label: raw.label,
+		description: typeof raw.description === 'string' ? raw.description : undefined,
+		type: raw.type as CatalogItemType,
+		requiredRole: raw.requiredRole as OrgRole | undefined,
+		permissions: raw.permissions as string[] | undefined,
+		content: raw.content as string | undefined,
+		tags: raw.tags as string[] | undefined
+	};
+}
+
+/** Characters that cannot appear in item names, they are not valid in file names on every platform */
+const ILLEGAL_NAME_CHARACTERS = /[\\/:*?"<>|\u0000-\u001f]/;
+const MAX_NAME_LENGTH = 255;
+
+/**
+ * Returns why a name cannot be used for an item, or undefined when it is valid
+ */
+export function validateItemName(name: string): string | undefined {
+	const trimmed = name.trim();
+	if (!trimmed) {
+		return 'Enter a name';
+	}
+	if (trimmed === '.' || trimmed === '..') {
+		return `"${trimmed}" is not a valid name`;
+	}
+	if (ILLEGAL_NAME_CHARACTERS.test(trimmed)) {
+		return 'Names cannot contain \\ / : * ? " < > | or control characters';
+	}
+	if (trimmed.length > MAX_NAME_LENGTH) {
+		return `Names can have at most ${MAX_NAME_LENGTH} characters`;
+	}
+	return undefined;
+}
@@ -0,0 +1,66 @@
+import * as fs from 'fs';
+import { ItemPageResult, ItemSource, ItemSourceResult, parseCatalog } from './catalog';
+
+/**
+ * Loads the catalog from a local JSON file (avro.items.file), e.g. for testing without the Avro platform
+ */
+export class FileItemSource implements ItemSource {
+	readonly description: string;
+
+	/**
+	 * @param filePath - Absolute path of the catalog file
+	 * @param pageSize - Children returned per loadChildren call
+	 */
+	constructor(private readonly filePath: string, private readonly pageSize: number) {
+		this.description = filePath;
+	}
+
+	/**
+	 * Pages through the children in the file, the cursor is the offset of the next page
+	 */
+	async loadChildren(parentId: string | undefined, cursor: string | undefined): Promise<ItemPageResult> {
+		const result = await this.load();
+		if (!result.success) {
+			return result;
+		}
+		const children = result.items.filter(item => (item.parentId ?? undefined) === parentId);
+		const offset = Number(cursor) || 0;
+		const end = offset + this.pageSize;
+		return {
+			...result,
+			items: children.slice(offset, end),
+			// Reported once per load instead of with every page
+			warnings: parentId === undefined && offset === 0 ? result.warnings : [],
+			nextCursor: end < children.length ? String(end) : undefined
+		};
+	}
+
+	async loadItem(id: string): Promise<ItemSourceResult> {
+		const result = await this.load();
+		return result.success ? { ...result, items: result.items.filter(item => item.id === id), warnings: [] } : result;
+	}
+
+	async load(): Promise<ItemSourceResult> {
+		let content: string;
+		try {
+			content = await fs.promises.readFile(this.filePath, 'utf8');
+		} catch (err) {
+			const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+			return {
+				success: false,
+				items: [],
+				warnings: [],
+				error: `Could not read ${this.filePath}: ${errorMessage}`,
+				errorCode: 'NOT_CONFIGURED',
+				setting: 'avro.items.file'
+			};
+		}
+
+		try {
+			return parseCatalog(JSON.parse(content));
+		} catch (err) {
+			const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+			return { success: false, items: [], warnings: [], error: `${this.filePath} is not valid JSON: ${errorMessage}`, errorCode: 'INVALID_RESPONSE' };
+		}
+	}
+}
@@ -0,0 +1,135 @@
+import {
+	CancellationSignal,
+	GitHubConnection,
+	RequestCancelledError,
+	githubFetch,
+	trimBaseUrl
+} from '../github/http';
+import { ActionResult, ItemPageResult, ItemSource, ItemSourceResult, parseCatalog, parseItemPage } from './catalog';
+
+const REQUEST_TIMEOUT_MS = 15 * 1000;
+
+/**
+ * Loads the catalog from the Avro platform (GET {avro.api.baseUrl}/items), or folder by folder
+ * (GET {avro.api.baseUrl}/items/children?parentId=&limit=&cursor=, single items from GET {avro.api.baseUrl}/items/{id}),
+ * and runs actions (POST {avro.api.baseUrl}/items/{id}/execute), authenticated with the stored
+ * GitHub token as bearer credentials
+ */
+export class HttpItemSource implements ItemSource {
+	readonly description: string;
+
+	/**
+	 * @param baseUrl - Avro API base URL from avro.api.baseUrl
+	 * @param getToken - Token of the active profile, read on every load so profile switches apply
+	 * @param connection - Proxy and CA certificates configured for GitHub, used for the Avro API as well
+	 * @param pageSize - Children requested per loadChildren call
+	 */
+	constructor(
+		private readonly baseUrl: string,
+		private readonly getToken: () => Promise<string | undefined>,
+		private readonly connection: GitHubConnection,
+		private readonly pageSize: number
+	) {
+		this.description = `${trimBaseUrl(baseUrl)}/items`;
+	}
+
+	async load(cancellation?: CancellationSignal): Promise<ItemSourceResult> {
+		const response = await this.request(this.description, cancellation);
+		return 'data' in response ? parseCatalog(response.data) : response;
+	}
+
+	async loadChildren(parentId: string | undefined, cursor: string | undefined, cancellation?: CancellationSignal): Promise<ItemPageResult> {
+		const query = new URLSearchParams({ limit: String(this.pageSize) });
+		if (parentId !== undefined) {
+			query.set('parentId', parentId);
+		}
+		if (cursor) {
+			query.set('cursor', cursor);
+		}
+		const response = await this.request(`${this.description}/children?${query.toString()}`, cancellation);
+		return 'data' in response ? parseItemPage(response.data) : response;
+	}
+
+	async loadItem(id: string, cancellation?: CancellationSignal): Promise<ItemSourceResult> {
+		const response = await this.request(`${this.description}/${encodeURIComponent(id)}`, cancellation, { allowNotFound: true });
+		// The item may be inside a folder that is not loaded, so its parent is not checked
+		return 'data' in response ? parseCatalog([response.data], false) : response;
+	}
+
+	/**
+	 * Runs an action item, the API may answer with { "message": "..." } to show to the user
+	 */
+	async executeAction(id: string, cancellation?: CancellationSignal): Promise<ActionResult> {
+		const response = await this.request(`${this.description}/${encodeURIComponent(id)}/execute`, cancellation, { method: 'POST' });
+		if (!('data' in response)) {
+			return { success: false, error: response.error, errorCode: response.errorCode };
+		}
+		const message = (response.data as { message?: unknown } | undefined)?.message;
+		return { success: true, message: typeof message === 'string' ? message : undefined };
+	}
+
+	/**
+	 * Sends a request to the Avro API and reads the JSON answer, or returns the failed result
+	 * @param options - POST answers may have no body (status 204), allowNotFound returns no items instead of failing on status 404
+	 */
+	private async request(
+		url: string,
+		cancellation?: CancellationSignal,
+		options: { method?: 'GET' | 'POST'; allowNotFound?: boolean } = {}
+	): Promise<{ data: unknown } | ItemSourceResult> {
+		const token = await this.getToken();
+		if (!token) {
+			return { success: false, items: [], warnings: [], error: 'Sign in to GitHub to load items', errorCode: 'UNAUTHORIZED' };
+		}
+
+		try {
+			const response = await githubFetch(url, {
+				method: options.method ?? 'GET',
+				headers: {
+					'User-Agent': 'Avro-VSCode-Extension',
+					'Accept': 'application/json',
+					'Authorization': `Bearer ${token}`
+				},
+				timeoutMs: REQUEST_TIMEOUT_MS,
+				cancellation
+			}, this.connection);
+
+			if (response.status === 401 || response.status === 403) {
+				return {
+					success: false,
+					items: [],
+					warnings: [],
+					error: `The Avro API rejected your GitHub token (status ${response.status})`,
+					errorCode: 'UNAUTHORIZED'
+				};
+			}
+			if (options.method === 'POST' && response.status === 204) {
+				return { data: undefined };
+			}
+			if (response.status === 404 && options.allowNotFound) {
+				return { success: true, items: [], warnings: [] };
+			}
+			if (response.status !== 200) {
+				return {
+					success: false,
+					items: [],
+					warnings: [],
+					error: `The Avro API returned status ${response.status}`,
+					errorCode: response.status >= 500 ? 'NETWORK' : 'UNKNOWN'
+				};
+			}
+
+			try {
+				return { data: await response.json() };
+			} catch {
+				return { success: false, items: [], warnings: [], error: 'The Avro API did not return JSON', errorCode: 'INVALID_RESPONSE' };
+			}
+		} catch (err) {
+			if (err instanceof RequestCancelledError) {
+				return { success: false, items: [], warnings: [], error: 'Cancelled', errorCode: 'CANCELLED' };
+			}
+			const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+			return { success: false, items: [], warnings: [], error: `Could not reach the Avro API: ${errorMessage}`, errorCode: 'NETWORK' };
+		}
+	}
+}
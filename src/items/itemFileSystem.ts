@@ -0,0 +1,168 @@
+import * as vscode from 'vscode';
+import { Item, ItemsProvider } from '../itemsProvider';
+import { PermissionDecision } from '../auth/permissions';
+
+export const ITEM_SCHEME = 'avro';
+
+/**
+ * URI of a file item, e.g. avro:/file-1/Report.pdf. The id locates the item,
+ * the label only gives the editor tab a readable name.
+ */
+export function itemUri(id: string, label: string): vscode.Uri {
+	return vscode.Uri.from({ scheme: ITEM_SCHEME, path: `/${encodeURIComponent(id)}/${label}` });
+}
+
+/**
+ * Item id of an avro: URI
+ */
+export function itemIdFromUri(uri: vscode.Uri): string | undefined {
+	const segment = uri.path.split('/')[1];
+	return segment ? decodeURIComponent(segment) : undefined;
+}
+
+interface ContentRevision {
+	content: string;
+	mtime: number;
+	/** URI the item was opened with, change events must use the same URI */
+	uri: vscode.Uri;
+}
+
+/**
+ * Serves the content of file items under the avro: scheme and saves edits to the item store.
+ * The modification time changes whenever the stored or item source content changes, so VS Code
+ * reloads unmodified editors and reports a conflict when saving over content that changed since it was opened.
+ */
+export class ItemFileSystemProvider implements vscode.FileSystemProvider, vscode.Disposable {
+	private readonly _onDidChangeFile = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+	readonly onDidChangeFile: vscode.Event<vscode.FileChangeEvent[]> = this._onDidChangeFile.event;
+
+	/** Last content seen per item id, to derive modification times */
+	private revisions = new Map<string, ContentRevision>();
+	private disposables: vscode.Disposable[] = [];
+
+	/**
+	 * @param canAccess - Whether the session may read or write the item, checked on every access
+	 */
+	constructor(
+		private readonly itemsProvider: ItemsProvider,
+		private readonly canAccess: (item: Item, access: 'read' | 'write') => PermissionDecision
+	) {
+		this.disposables.push(
+			this._onDidChangeFile,
+			itemsProvider.onDidChangeTreeData(() => this.detectChanges())
+		);
+	}
+
+	watch(): vscode.Disposable {
+		// Changes are detected from the items provider for every opened item
+		return new vscode.Disposable(() => undefined);
+	}
+
+	async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
+		const { item, content } = await this.resolve(uri, 'read');
+		return {
+			type: vscode.FileType.File,
+			ctime: 0,
+			mtime: this.revision(item.id, content, uri).mtime,
+			size: Buffer.byteLength(content, 'utf8')
+		};
+	}
+
+	async readFile(uri: vscode.Uri): Promise<Uint8Array> {
+		const { item, content } = await this.resolve(uri, 'read');
+		this.revision(item.id, content, uri);
+		return Buffer.from(content, 'utf8');
+	}
+
+	async writeFile(uri: vscode.Uri, data: Uint8Array): Promise<void> {
+		const { item } = await this.resolve(uri, 'write');
+		const content = Buffer.from(data).toString('utf8');
+		const result = await this.itemsProvider.writeItemContent(item.id, content);
+		if (!result.success) {
+			throw vscode.FileSystemError.Unavailable(result.error ?? uri);
+		}
+		this.revision(item.id, content, uri);
+		this._onDidChangeFile.fire([{ type: vscode.FileChangeType.Changed, uri }]);
+	}
+
+	readDirectory(): [string, vscode.FileType][] {
+		throw vscode.FileSystemError.NoPermissions('Items are opened individually from the Items Explorer');
+	}
+
+	createDirectory(): void {
+		throw vscode.FileSystemError.NoPermissions('Create folders in the Items Explorer');
+	}
+
+	delete(): void {
+		throw vscode.FileSystemError.NoPermissions('Delete items in the Items Explorer');
+	}
+
+	rename(): void {
+		throw vscode.FileSystemError.NoPermissions('Rename items in the Items Explorer');
+	}
+
+	/**
+	 * Finds the file item of a URI, also outside the loaded folders, and checks access, throwing the matching FileSystemError
+	 */
+	private async resolve(uri: vscode.Uri, access: 'read' | 'write'): Promise<{ item: Item; content: string }> {
+		const id = itemIdFromUri(uri);
+		const item = id ? await this.itemsProvider.resolveItem(id) : undefined;
+		if (!item) {
+			throw vscode.FileSystemError.FileNotFound(uri);
+		}
+		if (item.itemType !== 'file') {
+			throw vscode.FileSystemError.FileIsADirectory(uri);
+		}
+		const decision = this.canAccess(item, access);
+		if (!decision.allowed) {
+			throw vscode.FileSystemError.NoPermissions(decision.reason ?? uri);
+		}
+		return { item, content: item.content ?? '' };
+	}
+
+	/**
+	 * The revision of an item's content, with a new modification time when the content changed
+	 */
+	private revision(id: string, content: string, uri: vscode.Uri): ContentRevision {
+		const known = this.revisions.get(id);
+		if (known && known.content === content) {
+			return known;
+		}
+		// Strictly increasing even when two changes happen within the same millisecond
+		const revision = { content, mtime: Math.max(Date.now(), (known?.mtime ?? 0) + 1), uri };
+		this.revisions.set(id, revision);
+		return revision;
+	}
+
+	/**
+	 * Reports opened items whose content changed or that disappeared after the tree was rebuilt.
+	 * While folders load as they are expanded, items outside the loaded folders are left alone.
+	 */
+	private detectChanges(): void {
+		const events: vscode.FileChangeEvent[] = [];
+		for (const [id, known] of this.revisions) {
+			const item = this.itemsProvider.findItem(id);
+			if (!item && !this.itemsProvider.hasAllItems()) {
+				continue;
+			}
+			if (!item) {
+				this.revisions.delete(id);
+				events.push({ type: vscode.FileChangeType.Deleted, uri: known.uri });
+				continue;
+			}
+			const content = item.content ?? '';
+			if (content !== known.content) {
+				this.revision(id, content, known.uri);
+				events.push({ type: vscode.FileChangeType.Changed, uri: known.uri });
+			}
+		}
+		if (events.length > 0) {
+			this._onDidChangeFile.fire(events);
+		}
+	}
+
+	dispose(): void {
+		this.disposables.forEach(disposable => disposable.dispose());
+		this.disposables = [];
+	}
+}
@@ -0,0 +1,74 @@
+import { CATALOG_ITEM_TYPES, CatalogItemType } from './catalog';
+
+/**
+ * What the Items Explorer is filtered by. All set criteria must match, an empty filter shows everything.
+ */
+export interface ItemFilter {
+	/** Case-insensitive text searched in labels and descriptions */
+	text?: string;
+	/** Item types to show, any of them */
+	types?: CatalogItemType[];
+	/** Tags to show, items need at least one of them */
+	tags?: string[];
+}
+
+/** The parts of an item a filter looks at */
+export interface FilterableItem {
+	label: string;
+	description?: string | boolean;
+	itemType: string;
+	tags?: string[];
+}
+
+/**
+ * Whether a filter restricts anything
+ */
+export function isFilterActive(filter: ItemFilter | undefined): filter is ItemFilter {
+	return !!filter && (!!filter.text?.trim() || (filter.types?.length ?? 0) > 0 || (filter.tags?.length ?? 0) > 0);
+}
+
+/**
+ * Whether an item satisfies all criteria of a filter
+ */
+export function matchesFilter(item: FilterableItem, filter: ItemFilter): boolean {
+	if (filter.types?.length && !filter.types.includes(item.itemType as CatalogItemType)) {
+		return false;
+	}
+	if (filter.tags?.length && !filter.tags.some(tag => item.tags?.includes(tag))) {
+		return false;
+	}
+	const text = filter.text?.trim().toLowerCase();
+	if (text) {
+		const description = typeof item.description === 'string' ? item.description : '';
+		return item.label.toLowerCase().includes(text) || description.toLowerCase().includes(text);
+	}
+	return true;
+}
+
+/**
+ * Short summary for the view title, e.g. "file, action · #docs · "report""
+ */
+export function describeFilter(filter: ItemFilter): string {
+	return [
+		filter.types?.length ? filter.types.join(', ') : undefined,
+		filter.tags?.length ? filter.tags.map(tag => `#${tag}`).join(' ') : undefined,
+		filter.text?.trim() ? `"${filter.text.trim()}"` : undefined
+	].filter(part => part !== undefined).join(' · ');
+}
+
+/**
+ * Reads a filter saved in workspace state, dropping anything that is not a valid criterion
+ */
+export function parseItemFilter(data: unknown): ItemFilter | undefined {
+	if (!data || typeof data !== 'object') {
+		return undefined;
+	}
+	const raw = data as Record<string, unknown>;
+	const strings = (value: unknown) => Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === 'string') : [];
+	const filter: ItemFilter = {
+		text: typeof raw.text === 'string' ? raw.text : undefined,
+		types: strings(raw.types).filter((type): type is CatalogItemType => CATALOG_ITEM_TYPES.includes(type as CatalogItemType)),
+		tags: strings(raw.tags)
+	};
+	return isFilterActive(filter) ? filter : undefined;
+}
@@ -0,0 +1,47 @@
+import { GitHubConnection } from '../github/http';
+import { ItemSourceConfig } from '../utils/config';
+import { ItemSource, ItemSourceResult } from './catalog';
+import { FileItemSource } from './fileItemSource';
+import { HttpItemSource } from './httpItemSource';
+
+/**
+ * Creates the item source selected in the settings. A source missing its settings
+ * fails every load with NOT_CONFIGURED so the tree can point at the setting.
+ * With avro.items.pageSize 0 the source loads the whole catalog at once instead of folder by folder.
+ * @param getToken - Token of the active profile, sent to the Avro API
+ */
+export function createItemSource(
+	config: ItemSourceConfig,
+	getToken: () => Promise<string | undefined>,
+	connection: GitHubConnection
+): ItemSource {
+	let source: ItemSource;
+	if (config.kind === 'file') {
+		if (!config.filePath) {
+			return notConfigured('avro.items.file', 'Set avro.items.file to the JSON catalog to load items from');
+		}
+		source = new FileItemSource(config.filePath, config.pageSize);
+	} else {
+		if (!config.apiBaseUrl) {
+			return notConfigured('avro.api.baseUrl', 'Set avro.api.baseUrl to load items from the Avro platform');
+		}
+		source = new HttpItemSource(config.apiBaseUrl, getToken, connection, config.pageSize);
+	}
+	return config.pageSize > 0 ? source : withoutPaging(source);
+}
+
+function withoutPaging(source: ItemSource): ItemSource {
+	return {
+		description: source.description,
+		load: cancellation => source.load(cancellation),
+		executeAction: source.executeAction?.bind(source)
+	};
+}
+
+function notConfigured(setting: string, error: string): ItemSource {
+	const result: ItemSourceResult = { success: false, items: [], warnings: [], error, errorCode: 'NOT_CONFIGURED', setting };
+	return {
+		description: setting,
+		load: async () => result
+	};
+}
@@ -0,0 +1,706 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { CatalogItem, parseCatalog } from './catalog';
+
+/** Version of the stored document written by this extension */
+export const ITEM_STORE_VERSION = 4;
+
+/** Folder of the store files inside the first workspace folder, one file per organization and item source */
+const STORE_DIR = path.join('.avro', 'items');
+/** workspaceState key prefix used when no folder is open */
+const STORE_STATE_KEY = 'avro.itemStore';
+/** Store file of versions that kept one store per workspace, adopted by the first organization and source that load */
+const LEGACY_STORE_FILE = path.join('.avro', 'items.json');
+/** Key of the root level in StoredItems.order */
+const ROOT_ORDER_KEY = '';
+/** How long deleted items can be restored with DeleteResult.undo */
+export const DELETE_UNDO_MS = 30 * 1000;
+
+/**
+ * Local edits of a catalog item. parentId null moves the item to the root.
+ */
+export interface ItemChange {
+	label?: string;
+	description?: string;
+	parentId?: string | null;
+}
+
+/**
+ * Saved content of a file item and the item source content it was based on
+ */
+interface StoredContent {
+	content: string;
+	/** Hash of the item source content the edit started from, undefined for local items and older edits */
+	baseHash?: string;
+}
+
+/**
+ * The stored document: items created locally and changes to items of the item source
+ */
+interface StoredItems {
+	version: number;
+	/** Items created locally, nested through parentId like catalog items */
+	items: CatalogItem[];
+	/** Edits and moves of item source items by id */
+	changes: Record<string, ItemChange>;
+	/** Deleted item source items, their descendants disappear with them */
+	deleted: string[];
+	/** Saved content of file items by id, replaces the content from the item source */
+	contents: Record<string, StoredContent>;
+	/** Item ids in display order by parent id (ROOT_ORDER_KEY for the root), unlisted items follow in catalog order */
+	order: Record<string, string[]>;
+}
+
+/**
+ * What a move replaced, so it can be undone
+ */
+interface MoveRecord {
+	/** Parent of each moved local item, or the change of each moved item source item */
+	previous: { id: string; localParentId?: string | null; change?: ItemChange }[];
+	/** Order lists of the affected parents, undefined when there was none */
+	order: Record<string, string[] | undefined>;
+}
+
+/**
+ * What a delete removed, so it can be restored
+ */
+interface DeleteRecord {
+	/** Removed local items */
+	items: CatalogItem[];
+	/** Removed edits and contents of the deleted items */
+	changes: Record<string, ItemChange>;
+	contents: Record<string, StoredContent>;
+	/** Item source items added to the deleted list */
+	deleted: string[];
+}
+
+/**
+ * Whose items a store holds: changes are kept apart per organization and item source
+ */
+export interface ItemStoreScope {
+	org: string;
+	/** Identifies the item source, e.g. its endpoint or file path */
+	source: string;
+}
+
+export interface ItemStoreResult {
+	success: boolean;
+	error?: string;
+}
+
+export interface DeleteResult extends ItemStoreResult {
+	/** Restores the deleted items, until DELETE_UNDO_MS passed or the store was reloaded */
+	undo?: () => Promise<ItemStoreResult>;
+}
+
+/**
+ * Upgrades a stored document from the version it is keyed by to the next version
+ */
+const MIGRATIONS: Record<number, (data: unknown) => unknown> = {
+	// Version 0: a bare array of locally created items without edits or deletions
+	0: data => ({
+		version: 1,
+		items: Array.isArray(data) ? data : [],
+		changes: {},
+		deleted: []
+	}),
+	// Version 1: no file contents
+	1: data => ({
+		...(data as object),
+		version: 2,
+		contents: {}
+	}),
+	// Version 2: no custom order
+	2: data => ({
+		...(data as object),
+		version: 3,
+		order: {}
+	}),
+	// Version 3: contents without the item source content they were based on
+	3: data => {
+		const raw = data as { contents?: Record<string, unknown> };
+		const contents: Record<string, StoredContent> = {};
+		for (const [id, content] of Object.entries(raw.contents ?? {})) {
+			if (typeof content === 'string') {
+				contents[id] = { content };
+			}
+		}
+		return { ...(data as object), version: 4, contents };
+	}
+};
+
+/**
+ * Hash of item source content, to notice when it changes under a stored edit
+ */
+function contentHash(content: string | undefined): string {
+	return crypto.createHash('sha256').update(content ?? '', 'utf8').digest('hex');
+}
+
+function emptyStore(): StoredItems {
+	return { version: ITEM_STORE_VERSION, items: [], changes: {}, deleted: [], contents: {}, order: {} };
+}
+
+/**
+ * Brings a stored document to ITEM_STORE_VERSION, returning an error for documents written by a newer version
+ */
+function migrate(data: unknown): { data?: StoredItems; error?: string } {
+	const storedVersion = Array.isArray(data) ? 0 : (data as { version?: unknown })?.version;
+	if (typeof storedVersion !== 'number') {
+		return { error: 'missing "version"' };
+	}
+	let current = data;
+	let version = storedVersion;
+	if (version > ITEM_STORE_VERSION) {
+		return { error: `written by a newer version of the extension (version ${version})` };
+	}
+	while (version < ITEM_STORE_VERSION) {
+		const upgrade = MIGRATIONS[version];
+		if (!upgrade) {
+			return { error: `no migration from version ${version}` };
+		}
+		current = upgrade(current);
+		version = (current as { version: number }).version;
+	}
+
+	const raw = current as Partial<StoredItems>;
+	// Stored items may be placed inside items of the item source
+	const parsed = parseCatalog(raw.items ?? [], false);
+	if (parsed.warnings.length > 0) {
+		console.warn(`Avro: Skipped invalid stored items: ${parsed.warnings.join('; ')}`);
+	}
+	return {
+		data: {
+			version: ITEM_STORE_VERSION,
+			items: parsed.items,
+			changes: parseChanges(raw.changes),
+			deleted: Array.isArray(raw.deleted) ? raw.deleted.filter(id => typeof id === 'string') : [],
+			contents: parseContents(raw.contents),
+			order: parseOrder(raw.order)
+		}
+	};
+}
+
+/**
+ * Keeps the fields of ItemChange with the expected types, so a store file cannot override e.g. the
+ * required role or permissions of an item source item
+ */
+function parseChanges(data: unknown): Record<string, ItemChange> {
+	const changes: Record<string, ItemChange> = {};
+	if (data && typeof data === 'object') {
+		for (const [id, stored] of Object.entries(data as Record<string, Partial<Record<keyof ItemChange, unknown>>>)) {
+			if (!stored || typeof stored !== 'object') {
+				continue;
+			}
+			const change: ItemChange = {};
+			if (typeof stored.label === 'string') {
+				change.label = stored.label;
+			}
+			if (typeof stored.description === 'string') {
+				change.description = stored.description;
+			}
+			if (typeof stored.parentId === 'string' || stored.parentId === null) {
+				change.parentId = stored.parentId;
+			}
+			changes[id] = change;
+		}
+	}
+	return changes;
+}
+
+/**
+ * Keeps the order lists that are arrays, and only the ids in them
+ */
+function parseOrder(data: unknown): Record<string, string[]> {
+	const order: Record<string, string[]> = {};
+	if (data && typeof data === 'object') {
+		for (const [parentId, ids] of Object.entries(data as Record<string, unknown>)) {
+			if (Array.isArray(ids)) {
+				order[parentId] = ids.filter((id): id is string => typeof id === 'string');
+			}
+		}
+	}
+	return order;
+}
+
+/**
+ * Keeps the stored contents that have a content string
+ */
+function parseContents(data: unknown): Record<string, StoredContent> {
+	const contents: Record<string, StoredContent> = {};
+	if (data && typeof data === 'object') {
+		for (const [id, stored] of Object.entries(data as Record<string, Partial<StoredContent>>)) {
+			if (typeof stored?.content === 'string') {
+				contents[id] = { content: stored.content, baseHash: typeof stored.baseHash === 'string' ? stored.baseHash : undefined };
+			}
+		}
+	}
+	return contents;
+}
+
+/**
+ * Store file name of a scope, e.g. my-org-1a2b3c4d5e6f. The source is hashed as it may be a URL or path.
+ */
+function scopeFileName(scope: ItemStoreScope): string {
+	const org = scope.org.toLowerCase().replace(/[^a-z0-9-]/g, '_');
+	const source = crypto.createHash('sha256').update(scope.source, 'utf8').digest('hex').slice(0, 12);
+	return `${org}-${source}`;
+}
+
+function scopeStateKey(scope: ItemStoreScope): string {
+	return `${STORE_STATE_KEY}/${scope.org.toLowerCase()}/${scope.source}`;
+}
+
+/**
+ * Persists added, edited, moved and deleted items on top of the item source catalog, per organization and
+ * item source, in .avro/items/ of the first workspace folder or in workspaceState when no folder is open.
+ * External edits of the file are picked up through a file watcher. Nothing is stored until a scope is set.
+ */
+export class ItemStore implements vscode.Disposable {
+	private readonly _onDidChange = new vscode.EventEmitter<void>();
+	/** Fires when the stored items changed, including external edits of the store file */
+	readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+	private data: StoredItems = emptyStore();
+	/** Why the stored document could not be read, writes are refused so it is not overwritten */
+	private loadError: string | undefined;
+	/** The last move, until it is undone or the store is reloaded */
+	private lastMove: MoveRecord | undefined;
+	/** Counts reloads and scope changes, undo records and loads of an earlier generation no longer apply */
+	private generation = 0;
+	/** Content of the last write, so the watcher ignores our own changes */
+	private lastWritten: string | undefined;
+	private scope: ItemStoreScope | undefined;
+	/** Store file of the scope, undefined when no folder is open or no scope is set */
+	private filePath: string | undefined;
+	private readonly folderPath: string | undefined;
+	private disposables: vscode.Disposable[] = [];
+
+	constructor(private readonly workspaceState: vscode.Memento) {
+		const folder = vscode.workspace.workspaceFolders?.[0];
+		this.folderPath = folder?.uri.fsPath;
+
+		if (folder) {
+			const watcher = vscode.workspace.createFileSystemWatcher(
+				new vscode.RelativePattern(folder, `${STORE_DIR.split(path.sep).join('/')}/*.json`)
+			);
+			const reload = (uri: vscode.Uri) => {
+				if (uri.fsPath === this.filePath) {
+					this.reloadFromDisk();
+				}
+			};
+			this.disposables.push(
+				watcher,
+				watcher.onDidChange(reload),
+				watcher.onDidCreate(reload),
+				watcher.onDidDelete(reload)
+			);
+		}
+		this.disposables.push(this._onDidChange);
+	}
+
+	/**
+	 * Where the items are stored, for messages
+	 */
+	get location(): string {
+		return this.filePath ?? 'workspace state';
+	}
+
+	/**
+	 * Switches to the items of another organization or item source, undefined (signed out) stores nothing
+	 */
+	async setScope(scope: ItemStoreScope | undefined): Promise<void> {
+		if (scope?.org === this.scope?.org && scope?.source === this.scope?.source) {
+			return;
+		}
+		this.scope = scope;
+		this.filePath = scope && this.folderPath ? path.join(this.folderPath, STORE_DIR, `${scopeFileName(scope)}.json`) : undefined;
+		this.lastMove = undefined;
+		this.lastWritten = undefined;
+		this.generation++;
+		await this.load();
+		this._onDidChange.fire();
+	}
+
+	/**
+	 * Reads and migrates the stored document of the scope
+	 */
+	private async load(): Promise<void> {
+		const scope = this.scope;
+		const generation = this.generation;
+		if (!scope) {
+			this.data = emptyStore();
+			this.loadError = undefined;
+			return;
+		}
+
+		let stored: unknown;
+		try {
+			stored = this.filePath ? await this.readFile(this.filePath) : this.workspaceState.get(scopeStateKey(scope));
+			stored ??= await this.adoptLegacyStore(scope);
+		} catch (err) {
+			const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+			if (generation === this.generation) {
+				this.fail(`Could not read ${this.location}: ${errorMessage}`);
+			}
+			return;
+		}
+		if (generation !== this.generation) {
+			// The scope changed while reading
+			return;
+		}
+
+		if (stored === undefined) {
+			this.data = emptyStore();
+			this.loadError = undefined;
+			return;
+		}
+
+		const migrated = migrate(stored);
+		if (!migrated.data) {
+			this.fail(`Stored items in ${this.location} were ignored: ${migrated.error}`);
+			return;
+		}
+		const upgraded = (stored as { version?: unknown }).version !== ITEM_STORE_VERSION;
+		this.data = migrated.data;
+		this.loadError = undefined;
+		if (upgraded) {
+			await this.save();
+		}
+	}
+
+	/**
+	 * Applies the stored items, changes and order to the item source catalog
+	 */
+	apply(catalog: CatalogItem[]): CatalogItem[] {
+		const deleted = new Set(this.data.deleted);
+		const localIds = new Set(this.data.items.map(item => item.id));
+		const items = [...catalog.filter(item => !localIds.has(item.id)), ...this.data.items]
+			.filter(item => !deleted.has(item.id))
+			.map(item => {
+				const change = this.data.changes[item.id];
+				const stored = this.data.contents[item.id];
+				return change || stored
+					? { ...item, ...change, ...(stored ? { content: stored.content } : {}) }
+					: item;
+			});
+
+		// Stable sort: siblings follow their stored order, unlisted ones keep their position after them
+		const rank = (item: CatalogItem) => {
+			const index = this.data.order[item.parentId ?? ROOT_ORDER_KEY]?.indexOf(item.id) ?? -1;
+			return index === -1 ? Number.MAX_SAFE_INTEGER : index;
+		};
+		return items.sort((a, b) => rank(a) - rank(b));
+	}
+
+	/**
+	 * Ids of items whose item source content changed since their stored content was saved
+	 */
+	getContentConflicts(catalog: CatalogItem[]): string[] {
+		return catalog
+			.filter(item => {
+				const baseHash = this.data.contents[item.id]?.baseHash;
+				return baseHash !== undefined && baseHash !== contentHash(item.content);
+			})
+			.map(item => item.id);
+	}
+
+	/**
+	 * Whether there is a move that can be undone
+	 */
+	canUndoMove(): boolean {
+		return this.lastMove !== undefined;
+	}
+
+	/**
+	 * Stores a locally created item
+	 */
+	add(item: CatalogItem): Promise<ItemStoreResult> {
+		return this.update(data => {
+			data.items.push(item);
+		});
+	}
+
+	/**
+	 * Stores a new label or description of an item
+	 */
+	edit(id: string, change: Pick<ItemChange, 'label' | 'description'>): Promise<ItemStoreResult> {
+		return this.update(data => this.change(data, id, change));
+	}
+
+	/**
+	 * Moves items under another item, or to the root when parentId is undefined
+	 * @param order - All children of the new parent in their new order
+	 */
+	async move(ids: string[], parentId: string | undefined, order: string[]): Promise<ItemStoreResult> {
+		let record: MoveRecord | undefined;
+		const result = await this.update(data => {
+			record = this.recordMove(data, ids, parentId);
+			for (const id of ids) {
+				this.change(data, id, { parentId: parentId ?? null });
+			}
+			data.order[parentId ?? ROOT_ORDER_KEY] = order;
+		});
+		if (result.success) {
+			this.lastMove = record;
+		}
+		return result;
+	}
+
+	/**
+	 * Puts the items of the last move back where they were
+	 */
+	async undoMove(): Promise<ItemStoreResult> {
+		const record = this.lastMove;
+		if (!record) {
+			return { success: false, error: 'There is no move to undo' };
+		}
+		const result = await this.update(data => {
+			for (const previous of record.previous) {
+				const local = data.items.find(item => item.id === previous.id);
+				if (local) {
+					local.parentId = previous.localParentId;
+				} else if (previous.change) {
+					data.changes[previous.id] = previous.change;
+				} else {
+					delete data.changes[previous.id];
+				}
+			}
+			for (const [key, order] of Object.entries(record.order)) {
+				if (order) {
+					data.order[key] = order;
+				} else {
+					delete data.order[key];
+				}
+			}
+		});
+		if (result.success) {
+			this.lastMove = undefined;
+		}
+		return result;
+	}
+
+	private recordMove(data: StoredItems, ids: string[], parentId: string | undefined): MoveRecord {
+		const keys = new Set([parentId ?? ROOT_ORDER_KEY]);
+		const previous = ids.map(id => {
+			const local = data.items.find(item => item.id === id);
+			if (local) {
+				keys.add(local.parentId ?? ROOT_ORDER_KEY);
+				return { id, localParentId: local.parentId };
+			}
+			const change = data.changes[id];
+			return { id, change: change ? { ...change } : undefined };
+		});
+		const order: Record<string, string[] | undefined> = {};
+		keys.forEach(key => {
+			order[key] = data.order[key] ? [...data.order[key]] : undefined;
+		});
+		return { previous, order };
+	}
+
+	/**
+	 * Stores the content of a file item. Later saves keep the item source content the first edit was based on.
+	 * @param sourceContent - Current item source content, undefined for local items
+	 */
+	writeContent(id: string, content: string, sourceContent?: { content?: string }): Promise<ItemStoreResult> {
+		return this.update(data => {
+			const baseHash = data.contents[id]?.baseHash ?? (sourceContent ? contentHash(sourceContent.content) : undefined);
+			data.contents[id] = { content, baseHash };
+		});
+	}
+
+	/**
+	 * Keeps the stored content of a file item over a changed item source content, ending the conflict
+	 */
+	rebaseContent(id: string, sourceContent: { content?: string }): Promise<ItemStoreResult> {
+		return this.update(data => {
+			const stored = data.contents[id];
+			if (stored) {
+				stored.baseHash = contentHash(sourceContent.content);
+			}
+		});
+	}
+
+	/**
+	 * Drops the stored content of a file item, the item source content shows again
+	 */
+	discardContent(id: string): Promise<ItemStoreResult> {
+		return this.update(data => {
+			delete data.contents[id];
+		});
+	}
+
+	/**
+	 * Deletes items. Pass the ids of the whole subtree so descendants moved elsewhere go too.
+	 */
+	async delete(ids: string[]): Promise<DeleteResult> {
+		const record: DeleteRecord = { items: [], changes: {}, contents: {}, deleted: [] };
+		const result = await this.update(data => {
+			const removed = new Set(ids);
+			const localIds = new Set(data.items.map(item => item.id));
+			record.items = data.items.filter(item => removed.has(item.id));
+			data.items = data.items.filter(item => !removed.has(item.id));
+			for (const id of ids) {
+				if (data.changes[id]) {
+					record.changes[id] = data.changes[id];
+				}
+				if (data.contents[id] !== undefined) {
+					record.contents[id] = data.contents[id];
+				}
+				delete data.changes[id];
+				delete data.contents[id];
+				if (!localIds.has(id) && !data.deleted.includes(id)) {
+					data.deleted.push(id);
+					record.deleted.push(id);
+				}
+			}
+		});
+		if (!result.success) {
+			return result;
+		}
+		const generation = this.generation;
+		const expiresAt = Date.now() + DELETE_UNDO_MS;
+		return {
+			...result,
+			undo: () => {
+				if (generation !== this.generation || Date.now() > expiresAt) {
+					return Promise.resolve({ success: false, error: 'The delete can no longer be undone' });
+				}
+				return this.restore(record);
+			}
+		};
+	}
+
+	/**
+	 * Puts deleted items back, skipping local items that exist again
+	 */
+	private restore(record: DeleteRecord): Promise<ItemStoreResult> {
+		return this.update(data => {
+			const localIds = new Set(data.items.map(item => item.id));
+			data.items.push(...record.items.filter(item => !localIds.has(item.id)));
+			Object.assign(data.changes, record.changes);
+			Object.assign(data.contents, record.contents);
+			const restored = new Set(record.deleted);
+			data.deleted = data.deleted.filter(id => !restored.has(id));
+		});
+	}
+
+	private change(data: StoredItems, id: string, change: ItemChange): void {
+		const local = data.items.find(item => item.id === id);
+		if (local) {
+			Object.assign(local, change);
+			return;
+		}
+		data.changes[id] = { ...data.changes[id], ...change };
+	}
+
+	/**
+	 * Applies a mutation to a copy of the stored document and persists it
+	 */
+	private async update(mutate: (data: StoredItems) => void): Promise<ItemStoreResult> {
+		if (!this.scope) {
+			return { success: false, error: 'Items can only be changed while signed in to an organization' };
+		}
+		if (this.loadError) {
+			return { success: false, error: `${this.loadError}. Fix or remove it before changing items.` };
+		}
+		const previous = this.data;
+		const next: StoredItems = JSON.parse(JSON.stringify(previous));
+		mutate(next);
+		this.data = next;
+
+		const result = await this.save();
+		if (!result.success) {
+			this.data = previous;
+			return result;
+		}
+		this._onDidChange.fire();
+		return result;
+	}
+
+	private async save(): Promise<ItemStoreResult> {
+		try {
+			if (this.filePath) {
+				const content = `${JSON.stringify(this.data, null, 2)}\n`;
+				await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+				this.lastWritten = content;
+				await fs.promises.writeFile(this.filePath, content, 'utf8');
+			} else if (this.scope) {
+				await this.workspaceState.update(scopeStateKey(this.scope), this.data);
+			}
+			return { success: true };
+		} catch (err) {
+			const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+			return { success: false, error: `Could not save items to ${this.location}: ${errorMessage}` };
+		}
+	}
+
+	/**
+	 * Moves the store of a version without scopes to the scope, so existing changes are kept once
+	 */
+	private async adoptLegacyStore(scope: ItemStoreScope): Promise<unknown> {
+		if (!this.folderPath || !this.filePath) {
+			const legacy = this.workspaceState.get(STORE_STATE_KEY);
+			if (legacy !== undefined) {
+				await this.workspaceState.update(scopeStateKey(scope), legacy);
+				await this.workspaceState.update(STORE_STATE_KEY, undefined);
+			}
+			return legacy;
+		}
+		const legacyPath = path.join(this.folderPath, LEGACY_STORE_FILE);
+		const legacy = await this.readFile(legacyPath);
+		if (legacy !== undefined) {
+			await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+			await fs.promises.rename(legacyPath, this.filePath);
+			console.log(`Avro: Moved stored items of ${legacyPath} to ${this.filePath}`);
+		}
+		return legacy;
+	}
+
+	private async readFile(filePath: string): Promise<unknown> {
+		let content: string;
+		try {
+			content = await fs.promises.readFile(filePath, 'utf8');
+		} catch (err) {
+			if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+				return undefined;
+			}
+			throw err;
+		}
+		if (content === this.lastWritten) {
+			return this.data;
+		}
+		try {
+			return JSON.parse(content);
+		} catch {
+			throw new Error('not valid JSON');
+		}
+	}
+
+	private async reloadFromDisk(): Promise<void> {
+		if (this.filePath) {
+			const content = await fs.promises.readFile(this.filePath, 'utf8').catch(() => undefined);
+			if (content !== undefined && content === this.lastWritten) {
+				return;
+			}
+		}
+		await this.load();
+		// Recorded moves and deletes may no longer match the file
+		this.lastMove = undefined;
+		this.generation++;
+		this._onDidChange.fire();
+	}
+
+	private fail(error: string): void {
+		this.loadError = error;
+		this.data = emptyStore();
+		console.error(`Avro: ${error}`);
+		vscode.window.showWarningMessage(`Avro: ${error}`);
+	}
+
+	dispose(): void {
+		this.disposables.forEach(disposable => disposable.dispose());
+		this.disposables = [];
+	}
+}
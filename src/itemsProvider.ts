@@ -1,6 +1,50 @@
 import * as vscode from 'vscode';
+import { hasRole, missingPermissions, AccessPreview, TeamAccess } from './auth/permissions';
+import { ActionResult, CatalogItem, CatalogItemType, ItemPageResult, ItemSource, ItemSourceResult, validateItemName } from './items/catalog';
+import { DeleteResult, ItemStore, ItemStoreResult } from './items/itemStore';
+import { itemUri } from './items/itemFileSystem';
+import { ItemFilter, describeFilter, isFilterActive, matchesFilter } from './items/itemFilter';
+
+/** globalState key of the last loaded catalog, shown while offline */
+const CATALOG_CACHE_KEY = 'avro.itemCatalog';
+
+interface CachedCatalog {
+	org: string | undefined;
+	items: CatalogItem[];
+}
+
+type LoadState = 'idle' | 'loading' | 'loaded' | 'failed';
+
+/** Key of the root level in the page cache */
+const ROOT_PAGE_KEY = '';
+
+/**
+ * Children of a folder loaded so far from a paging item source
+ */
+interface ChildPages {
+	items: CatalogItem[];
+	/** Cursor of the next page, undefined when all children are loaded */
+	nextCursor?: string;
+}
+
+/**
+ * A page load that is still running, shared by everyone asking for the same folder
+ */
+interface PageLoad {
+	cancellation: vscode.CancellationTokenSource;
+	result: Promise<ItemPageResult>;
+}
 
 export class Item extends vscode.TreeItem {
+	/** Minimum role needed to see and use the item, items with an 'admin-only' type require admin */
+	requiredRole?: 'admin' | 'member';
+	/** Team permissions (avro.github.teamPermissions) needed to see and use the item */
+	requiredPermissions?: string[];
+	/** Text content of file items, served by the avro: file system */
+	content?: string;
+	/** Labels from the catalog, used by the tree filter */
+	tags?: string[];
+
 	constructor(
 		public readonly id: string,
 		public readonly label: string,
@@ -24,65 +68,485 @@ export class Item extends vscode.TreeItem {
 			this.iconPath = new vscode.ThemeIcon('symbol-event');
 		} else if (itemType === 'empty') {
 			this.iconPath = new vscode.ThemeIcon('info');
+		} else if (itemType === 'invitation') {
+			this.iconPath = new vscode.ThemeIcon('mail');
+		} else if (itemType === 'offline') {
+			this.iconPath = new vscode.ThemeIcon('debug-disconnect');
+		} else if (itemType === 'preview') {
+			this.iconPath = new vscode.ThemeIcon('eye');
+		} else if (itemType === 'loading') {
+			this.iconPath = new vscode.ThemeIcon('loading~spin');
+		} else if (itemType === 'error') {
+			this.iconPath = new vscode.ThemeIcon('error');
+		} else if (itemType === 'load-more') {
+			this.iconPath = new vscode.ThemeIcon('ellipsis');
 		} else {
 			this.iconPath = new vscode.ThemeIcon('circle-filled');
 		}
 	}
 }
 
+/**
+ * Minimum role needed for an item
+ */
+export function getItemRequiredRole(item: Item): 'admin' | 'member' {
+	return item.requiredRole ?? (item.itemType?.includes('admin-only') ? 'admin' : 'member');
+}
+
+/**
+ * Builds the tree from the flat catalog. Items that cannot be reached from a root item are left out.
+ * @param expandedIds - Folders expanded in the view, built expanded so they stay open across refreshes
+ */
+function buildItemTree(catalog: CatalogItem[], expandedIds: Set<string>): Map<string, Item> {
+	const childrenByParent = new Map<string | undefined, CatalogItem[]>();
+	for (const entry of catalog) {
+		const parentId = entry.parentId ?? undefined;
+		childrenByParent.set(parentId, [...(childrenByParent.get(parentId) ?? []), entry]);
+	}
+
+	const build = (entry: CatalogItem): Item => {
+		const children = (childrenByParent.get(entry.id) ?? []).map(build);
+		const item = new Item(
+			entry.id,
+			entry.label,
+			entry.description ?? '',
+			entry.type,
+			children.length > 0 || entry.type === 'folder'
+				? expandedIds.has(entry.id) ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed
+				: vscode.TreeItemCollapsibleState.None,
+			children
+		);
+		item.requiredRole = entry.requiredRole;
+		item.requiredPermissions = entry.permissions;
+		item.content = entry.content;
+		item.tags = entry.tags;
+		if (entry.tags?.length) {
+			item.tooltip = `${entry.label}: ${entry.description ?? ''}\nTags: ${entry.tags.join(', ')}`;
+		}
+		if (entry.type === 'file') {
+			// Lets file decorations (unsaved changes) apply to the tree item
+			item.resourceUri = itemUri(entry.id, entry.label);
+			item.command = { command: 'itemsExplorer.openItem', title: 'Open Item', arguments: [item] };
+		}
+		return item;
+	};
+
+	return new Map((childrenByParent.get(undefined) ?? []).map(entry => [entry.id, build(entry)]));
+}
+
+/**
+ * Ids of an item and all its descendants
+ */
+function collectIds(item: Item): string[] {
+	return [item.id, ...(item.children ?? []).flatMap(collectIds)];
+}
+
 export class ItemsProvider implements vscode.TreeDataProvider<Item> {
 	private _onDidChangeTreeData: vscode.EventEmitter<Item | undefined | null | void> =
 		new vscode.EventEmitter<Item | undefined | null | void>();
 	readonly onDidChangeTreeData: vscode.Event<Item | undefined | null | void> =
 		this._onDidChangeTreeData.event;
+	private readonly _onDidDetectContentConflicts = new vscode.EventEmitter<Item[]>();
+	/** Fires with file items whose item source content changed after they were edited locally, once per conflict */
+	readonly onDidDetectContentConflicts: vscode.Event<Item[]> = this._onDidDetectContentConflicts.event;
 
 	private items: Map<string, Item> = new Map();
+	/** Items as delivered by the source, the store's changes are applied on top */
+	private catalog: CatalogItem[] = [];
 	private isAuthenticated = false;
 	private authenticatedUser: string | undefined;
 	private userRole: 'admin' | 'member' | undefined;
+	private teamAccess: TeamAccess | undefined;
+	private preview: AccessPreview | undefined;
+	private organization: string | undefined;
+	private pendingInvitationOrg: string | undefined;
+	private isOffline = false;
+	private offlineRole: 'admin' | 'member' | undefined;
+	private loadState: LoadState = 'idle';
+	private loadResult: ItemSourceResult | undefined;
+	private loadCancellation: vscode.CancellationTokenSource | undefined;
+	/** The running or last catalog load, awaited before items are looked up by id */
+	private pendingLoad: Promise<ItemSourceResult> | undefined;
+	private filter: ItemFilter | undefined;
+	/** Ids of items that match the filter or lead to a match, undefined when nothing is filtered */
+	private filterVisibleIds: Set<string> | undefined;
+	/** Children loaded per folder id (ROOT_PAGE_KEY for the root) when the source pages, cleared by loadItems */
+	private pages = new Map<string, ChildPages>();
+	private pageLoads = new Map<string, PageLoad>();
+	private expandedIds = new Set<string>();
+	/** Ids of content conflicts already reported */
+	private reportedConflicts = new Set<string>();
 
-	constructor() {
-		this.initializeItems();
-	}
-
-	private initializeItems(): void {
-		// Initialize with hierarchical items
-		const folder1 = new Item(
-			'folder-1', 
-			'Documents', 
-			'Folder with files',
-			'folder',
-			vscode.TreeItemCollapsibleState.Collapsed,
-			[
-				new Item('file-1', 'Report.pdf', 'PDF document', 'file'),
-				new Item('file-2', 'Notes.txt', 'Text file', 'file')
-			]
-		);
-		
-		const folder2 = new Item(
-			'folder-2', 
-			'Actions', 
-			'Available actions',
-			'folder',
-			vscode.TreeItemCollapsibleState.Collapsed,
-			[
-				new Item('action-1', 'Deploy', 'Deploy to production', 'action'),
-				new Item('action-2', 'Test', 'Run tests', 'action')
-			]
-		);
-		
-		this.items.set('folder-1', folder1);
-		this.items.set('folder-2', folder2);
-		this.items.set('item-3', new Item('item-3', 'Simple Item', 'Single item', 'item'));
+	/**
+	 * @param source - Where items are loaded from once the user is authenticated
+	 * @param store - Persists added, edited, moved and deleted items
+	 * @param cache - Keeps the last loaded catalog for offline sessions (extension globalState)
+	 */
+	constructor(private source: ItemSource, private readonly store: ItemStore, private readonly cache?: vscode.Memento) {
+		store.onDidChange(() => {
+			this.rebuild();
+			this.refresh();
+		});
+	}
+
+	/**
+	 * Rebuilds the tree from the source catalog and the stored changes
+	 */
+	private rebuild(): void {
+		this.items = buildItemTree(this.store.apply(this.catalog), this.expandedIds);
+		this.updateFilterVisibility();
+		this.detectContentConflicts();
+	}
+
+	/**
+	 * Reports stored contents whose item source content changed since they were saved
+	 */
+	private detectContentConflicts(): void {
+		const conflicts = this.store.getContentConflicts(this.catalog);
+		const added = conflicts.filter(id => !this.reportedConflicts.has(id));
+		this.reportedConflicts = new Set(conflicts);
+		const items = added.flatMap(id => this.findItem(id) ?? []);
+		if (items.length > 0) {
+			this._onDidDetectContentConflicts.fire(items);
+		}
+	}
+
+	/**
+	 * Tracks the folders expanded in the view. Collapsing a folder cancels loading its children.
+	 */
+	setExpanded(id: string, expanded: boolean): void {
+		if (expanded) {
+			this.expandedIds.add(id);
+			return;
+		}
+		this.expandedIds.delete(id);
+		const load = this.pageLoads.get(id);
+		if (load) {
+			load.cancellation.cancel();
+			this.pageLoads.delete(id);
+			// Expanding again asks for the children again
+			this.refresh();
+		}
+	}
+
+	/**
+	 * Filters the tree, undefined (or an empty filter) shows all items
+	 */
+	setFilter(filter: ItemFilter | undefined): void {
+		this.filter = isFilterActive(filter) ? filter : undefined;
+		this.updateFilterVisibility();
+		this.refresh();
+	}
+
+	getFilter(): ItemFilter | undefined {
+		return this.filter;
+	}
+
+	/**
+	 * Whether the filter hides an item, e.g. before revealing it
+	 */
+	isHiddenByFilter(id: string): boolean {
+		return this.filterVisibleIds !== undefined && !this.filterVisibleIds.has(id);
+	}
+
+	/**
+	 * Items matching the filter are shown with everything below them, other items only when they lead to a match
+	 */
+	private updateFilterVisibility(): void {
+		const filter = this.filter;
+		if (!filter) {
+			this.filterVisibleIds = undefined;
+			return;
+		}
+		const visible = new Set<string>();
+		const visit = (item: Item, ancestorMatched: boolean): boolean => {
+			const matched = ancestorMatched || matchesFilter(item, filter);
+			// Every child is visited, not just up to the first visible one
+			const leadsToMatch = (item.children ?? []).map(child => visit(child, matched)).includes(true);
+			if (matched || leadsToMatch) {
+				visible.add(item.id);
+			}
+			return matched || leadsToMatch;
+		};
+		this.items.forEach(item => visit(item, false));
+		this.filterVisibleIds = visible;
+	}
+
+	private applyFilter(items: Item[]): Item[] {
+		const visible = this.filterVisibleIds;
+		return visible ? items.filter(item => visible.has(item.id)) : items;
+	}
+
+	/**
+	 * Switch to another item source (after a settings change) and reload if signed in
+	 */
+	setSource(source: ItemSource): void {
+		this.source = source;
+		this.updateStoreScope();
+		// Pages of the previous source are not continued with the new one
+		this.cancelPageLoads();
+		this.pages = new Map();
+		if (this.isAuthenticated) {
+			this.loadItems();
+		}
+	}
+
+	/**
+	 * Loads the catalog from the item source, cancelling a load that is still running.
+	 * Loading and error states are shown as placeholder nodes.
+	 */
+	loadItems(): Promise<ItemSourceResult> {
+		this.pendingLoad = this.runLoad();
+		return this.pendingLoad;
+	}
+
+	private async runLoad(): Promise<ItemSourceResult> {
+		this.loadCancellation?.cancel();
+		const cancellation = new vscode.CancellationTokenSource();
+		this.loadCancellation = cancellation;
+		this.loadState = 'loading';
+		this.refresh();
+
+		this.cancelPageLoads();
+		const result = this.source.loadChildren
+			? await this.reloadPages(cancellation.token)
+			: await this.source.load(cancellation.token);
+		if (cancellation.token.isCancellationRequested) {
+			// A newer load or a sign-out replaced this one
+			return result;
+		}
+		cancellation.dispose();
+		this.loadCancellation = undefined;
+
+		this.loadResult = result;
+		if (result.success) {
+			this.catalog = result.items;
+			this.rebuild();
+			this.loadState = 'loaded';
+			await this.cacheCatalog();
+		} else {
+			this.loadState = 'failed';
+			console.error(`Avro: Could not load items from ${this.source.description}: ${result.error}`);
+		}
+		if (result.warnings.length > 0) {
+			console.warn(`Avro: Skipped invalid items from ${this.source.description}: ${result.warnings.join('; ')}`);
+		}
+		this.refresh();
+		return result;
+	}
+
+	/**
+	 * Loads the first page of the root and of every expanded folder, replacing the page cache
+	 * once all of them are in so expanded folders and the selection survive the refresh
+	 */
+	private async reloadPages(token: vscode.CancellationToken): Promise<ItemSourceResult> {
+		const root = await this.fetchPage(undefined, undefined, token);
+		if (!root.success) {
+			return root;
+		}
+		const pages = new Map<string, ChildPages>([[ROOT_PAGE_KEY, { items: root.items, nextCursor: root.nextCursor }]]);
+		const warnings = [...root.warnings];
+		const queue = [...root.items];
+		for (let i = 0; i < queue.length && !token.isCancellationRequested; i++) {
+			const entry = queue[i];
+			if (entry.type !== 'folder' || !this.expandedIds.has(entry.id)) {
+				continue;
+			}
+			// Folders that fail are loaded again when the view asks for their children
+			const page = await this.fetchPage(entry.id, undefined, token);
+			if (page.success) {
+				pages.set(entry.id, { items: page.items, nextCursor: page.nextCursor });
+				warnings.push(...page.warnings);
+				queue.push(...page.items);
+			}
+		}
+		if (!token.isCancellationRequested) {
+			this.pages = pages;
+		}
+		return { ...root, items: this.pagedCatalog(pages), warnings };
+	}
+
+	/**
+	 * Loads the next page of a folder's children (root items when parentId is undefined),
+	 * or the first page when the folder was not loaded yet or failed
+	 */
+	async loadMoreChildren(parentId: string | undefined): Promise<ItemSourceResult> {
+		const page = this.pages.get(parentId ?? ROOT_PAGE_KEY);
+		if (page && !page.nextCursor) {
+			return { success: true, items: [], warnings: [] };
+		}
+		const result = await this.loadPage(parentId, page?.nextCursor);
+		this.refresh();
+		return result;
+	}
+
+	/**
+	 * Loads a page into the page cache, sharing a load of the same folder that is still running
+	 */
+	private loadPage(parentId: string | undefined, cursor: string | undefined): Promise<ItemPageResult> {
+		const key = parentId ?? ROOT_PAGE_KEY;
+		const running = this.pageLoads.get(key);
+		if (running) {
+			return running.result;
+		}
+
+		const cancellation = new vscode.CancellationTokenSource();
+		const result = this.fetchPage(parentId, cursor, cancellation.token).then(async result => {
+			if (cancellation.token.isCancellationRequested) {
+				return result;
+			}
+			this.pageLoads.delete(key);
+			cancellation.dispose();
+			if (result.success) {
+				const loaded = cursor ? this.pages.get(key)?.items ?? [] : [];
+				this.pages.set(key, { items: [...loaded, ...result.items], nextCursor: result.nextCursor });
+				this.catalog = this.pagedCatalog(this.pages);
+				this.rebuild();
+				await this.cacheCatalog();
+			} else {
+				console.error(`Avro: Could not load children of ${parentId ?? 'the root'} from ${this.source.description}: ${result.error}`);
+			}
+			if (result.warnings.length > 0) {
+				console.warn(`Avro: Skipped invalid items from ${this.source.description}: ${result.warnings.join('; ')}`);
+			}
+			return result;
+		});
+		this.pageLoads.set(key, { cancellation, result });
+		return result;
+	}
+
+	/**
+	 * One page from the source, reported as cancelled when the token was cancelled meanwhile
+	 */
+	private async fetchPage(parentId: string | undefined, cursor: string | undefined, token: vscode.CancellationToken): Promise<ItemPageResult> {
+		const result = this.source.loadChildren
+			? await this.source.loadChildren(parentId, cursor, token)
+			: await this.source.load(token);
+		return token.isCancellationRequested
+			? { success: false, items: [], warnings: [], error: 'Cancelled', errorCode: 'CANCELLED' }
+			: result;
+	}
+
+	/**
+	 * The catalog made of all loaded pages, an item listed on two pages is kept once
+	 */
+	private pagedCatalog(pages: Map<string, ChildPages>): CatalogItem[] {
+		const items = new Map<string, CatalogItem>();
+		pages.forEach(page => page.items.forEach(item => items.set(item.id, item)));
+		return [...items.values()];
+	}
+
+	private cancelPageLoads(): void {
+		this.pageLoads.forEach(load => load.cancellation.cancel());
+		this.pageLoads.clear();
+	}
+
+	/**
+	 * Keeps the known items for offline sessions
+	 */
+	private async cacheCatalog(): Promise<void> {
+		await this.cache?.update(CATALOG_CACHE_KEY, { org: this.organization, items: this.catalog } as CachedCatalog);
 	}
 
 	/**
-	 * Set authentication state with user role
+	 * Forget the loaded items, e.g. when another user or organization becomes active
 	 */
-	setAuthenticationState(isAuthenticated: boolean, username?: string, role?: 'admin' | 'member'): void {
+	private resetItems(): void {
+		this.loadCancellation?.cancel();
+		this.loadCancellation = undefined;
+		this.cancelPageLoads();
+		this.pages = new Map();
+		this.items = new Map();
+		this.catalog = [];
+		this.loadState = 'idle';
+		this.loadResult = undefined;
+	}
+
+	/**
+	 * Set authentication state with user role, team access and active organization.
+	 * The role and teams must come from a verification with GitHub in this session, never from cached data.
+	 */
+	setAuthenticationState(
+		isAuthenticated: boolean,
+		username?: string,
+		role?: 'admin' | 'member',
+		org?: string,
+		teamAccess?: TeamAccess
+	): void {
+		if (username !== this.authenticatedUser || org !== this.organization) {
+			this.resetItems();
+		}
+		// Load on sign-in and when coming back online, not on every role or team update
+		const needsLoad = isAuthenticated && (!this.isAuthenticated || this.loadState === 'idle');
 		this.isAuthenticated = isAuthenticated;
+		this.isOffline = false;
+		this.offlineRole = undefined;
 		this.authenticatedUser = username;
 		this.userRole = role;
+		this.teamAccess = teamAccess;
+		this.organization = org;
+		this.updateStoreScope();
+		if (needsLoad) {
+			this.loadItems();
+		}
+		this.refresh();
+	}
+
+	/**
+	 * Show the last known user and items read-only while GitHub cannot be reached.
+	 * The cached role only decides which items are displayed, every item action stays disabled.
+	 */
+	setOfflineState(username: string | undefined, cachedRole: 'admin' | 'member' | undefined, org: string | undefined): void {
+		if (username !== this.authenticatedUser || org !== this.organization) {
+			this.resetItems();
+		}
+		if (this.loadState !== 'loaded') {
+			// Nothing loaded in this session yet, fall back to the catalog cached for the organization
+			const cached = this.cache?.get<CachedCatalog>(CATALOG_CACHE_KEY);
+			if (cached && cached.org === org) {
+				this.catalog = cached.items;
+				this.rebuild();
+			}
+		}
+		this.isAuthenticated = false;
+		this.isOffline = true;
+		this.authenticatedUser = username;
+		this.userRole = undefined;
+		this.teamAccess = undefined;
+		this.offlineRole = cachedRole;
+		this.organization = org;
+		this.updateStoreScope();
+		this.refresh();
+	}
+
+	/**
+	 * Points the item store at the changes of the active organization and item source, the tree is rebuilt once they
+	 * are loaded (through store.onDidChange), or with what the store holds when loading them failed
+	 */
+	private updateStoreScope(): void {
+		this.store.setScope(this.organization ? { org: this.organization, source: this.source.description } : undefined)
+			.catch(err => {
+				const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+				console.error(`Avro: Could not load the stored items: ${errorMessage}`);
+				vscode.window.showWarningMessage(`Avro: Could not load the stored items: ${errorMessage}`);
+				this.rebuild();
+				this.refresh();
+			});
+	}
+
+	/**
+	 * Show (or with no organization, hide) a node offering to accept a pending organization invitation
+	 */
+	setPendingInvitation(org: string | undefined): void {
+		this.pendingInvitationOrg = org;
+		this.refresh();
+	}
+
+	/**
+	 * Filter the tree with a previewed role and teams instead of the verified ones, undefined ends the preview
+	 */
+	setPreview(preview: AccessPreview | undefined): void {
+		this.preview = preview;
 		this.refresh();
 	}
 
@@ -101,20 +565,38 @@ export class ItemsProvider implements vscode.TreeDataProvider<Item> {
 	}
 
 	/**
-	 * Filter items based on user role
+	 * Filter items based on user role and team permissions and each item's requirements.
+	 * Teams are not known offline, so items requiring team permissions are hidden then.
+	 * An active preview replaces the verified role and teams.
 	 */
-	private filterItemsByRole(items: Item[]): Item[] {
-		// Admin can see everything
-		if (this.userRole === 'admin') {
-			return items;
-		}
+	private filterItemsByRole(items: Item[], role = this.preview?.role ?? this.userRole): Item[] {
+		const permissions = (this.preview?.teamAccess ?? this.teamAccess)?.permissions;
+		return items.filter(item =>
+			hasRole(role, getItemRequiredRole(item))
+			&& missingPermissions(permissions, item.requiredPermissions).length === 0);
+	}
 
-		// Member can see most things (filter out admin-only items if needed)
-		if (this.userRole === 'member') {
-			return items.filter(item => !item.itemType?.includes('admin-only'));
-		}
+	/**
+	 * Items the tree shows for the session: filtered by the cached role while offline, by the verified role otherwise
+	 */
+	private filterVisibleItems(items: Item[]): Item[] {
+		return this.isOffline ? this.filterItemsByRole(items, this.offlineRole) : this.filterItemsByRole(items);
+	}
 
-		return [];
+	/**
+	 * Items shown while offline: filtered by the cached role for display and stripped of their actions
+	 */
+	private toOfflineItems(items: Item[]): Item[] {
+		return this.filterItemsByRole(items, this.offlineRole).map(item => {
+			const readOnly = new Item(item.id, item.label, item.description, item.itemType, item.collapsibleState, item.children);
+			// Context menus match on the item type, so the read-only copy gets none of them
+			readOnly.contextValue = 'readonly';
+			readOnly.requiredRole = item.requiredRole;
+			readOnly.requiredPermissions = item.requiredPermissions;
+			readOnly.tags = item.tags;
+			readOnly.tooltip = `${item.label}: ${item.description} (offline, read-only)`;
+			return readOnly;
+		});
 	}
 
 	refresh(): void {
@@ -127,8 +609,38 @@ export class ItemsProvider implements vscode.TreeDataProvider<Item> {
 
 	getChildren(element?: Item): Thenable<Item[]> {
 		if (element) {
-			// Return children if they exist, filtered by role
-			return Promise.resolve(this.filterItemsByRole(element.children || []));
+			// The tree may have been rebuilt with more items since the element was handed out
+			const children = this.findItem(element.id)?.children ?? [];
+			if (this.isOffline) {
+				return Promise.resolve(this.applyFilter(this.toOfflineItems(children)));
+			}
+			return this.getFolderChildren(element);
+		}
+
+		if (this.isOffline) {
+			const offlineItem = new Item(
+				'offline-status',
+				'Offline',
+				'GitHub unreachable, showing last known items | Click to retry',
+				'offline',
+				vscode.TreeItemCollapsibleState.None
+			);
+			offlineItem.command = {
+				command: 'avro.retryConnection',
+				title: 'Retry Connection'
+			};
+			const userStatus = new Item(
+				'user-status',
+				`👤 ${this.authenticatedUser || 'Unknown user'}`,
+				`${this.organization ? `Org: ${this.organization} | ` : ''}Role: ${this.offlineRole ? `${this.offlineRole} (cached)` : 'unknown'}`,
+				'user-status-offline',
+				vscode.TreeItemCollapsibleState.None
+			);
+			return Promise.resolve([
+				offlineItem,
+				userStatus,
+				...this.applyFilter(this.toOfflineItems(Array.from(this.items.values())))
+			]);
 		}
 		
 		// If not authenticated, show message to authenticate
@@ -144,40 +656,420 @@ export class ItemsProvider implements vscode.TreeDataProvider<Item> {
 				command: 'avro.authenticate',
 				title: 'Authenticate with GitHub'
 			};
+
+			if (this.pendingInvitationOrg) {
+				const invitationItem = new Item(
+					'pending-invitation',
+					`Invitation to ${this.pendingInvitationOrg}`,
+					'Pending | Click to accept',
+					'invitation',
+					vscode.TreeItemCollapsibleState.None
+				);
+				invitationItem.command = {
+					command: 'avro.acceptInvitation',
+					title: 'Accept Organization Invitation'
+				};
+				return Promise.resolve([invitationItem, emptyItem]);
+			}
+
 			return Promise.resolve([emptyItem]);
 		}
 
 		// If authenticated, show user info and role-filtered items
 		const rootItems: Item[] = [];
 		
-		// Add authenticated user status item with role
+		// Show that the tree is filtered with a preview, clicking the banner ends it
+		if (this.preview) {
+			const previewTeams = this.preview.teamAccess.teams;
+			const banner = new Item(
+				'preview-banner',
+				`Previewing as ${this.preview.role}`,
+				`Teams: ${previewTeams.length > 0 ? previewTeams.join(', ') : 'none'} | Click to exit`,
+				'preview',
+				vscode.TreeItemCollapsibleState.None
+			);
+			banner.tooltip = `Items and commands are limited to what a ${this.preview.role} with these teams can use. Your GitHub access is unchanged.`;
+			banner.command = {
+				command: 'avro.exitPreview',
+				title: 'Exit Preview'
+			};
+			rootItems.push(banner);
+		}
+
+		// Add authenticated user status item with organization, role and teams
+		const teams = this.teamAccess?.teams ?? [];
 		const userStatus = new Item(
 			'user-status',
 			`👤 ${this.authenticatedUser || 'Authenticated'}`,
-			`Role: ${this.userRole || 'unknown'} | Click to logout`,
+			`${this.organization ? `Org: ${this.organization} | ` : ''}Role: ${this.userRole || 'unknown'} | Teams: ${teams.length > 0 ? teams.join(', ') : 'none'} | Click to switch`,
 			'user-status',
 			vscode.TreeItemCollapsibleState.None,
 			undefined,
 			false
 		);
+		userStatus.tooltip = `Teams: ${teams.length > 0 ? teams.join(', ') : 'none'}\nPermissions: ${this.teamAccess?.permissions.join(', ') || 'none'}`;
 		userStatus.command = {
-			command: 'avro.logout',
-			title: 'Logout'
+			command: 'avro.switchProfile',
+			title: 'Switch Account or Organization'
 		};
 		rootItems.push(userStatus);
 
+		rootItems.push(...this.getLoadPlaceholders());
+
 		// Add role-filtered items
-		rootItems.push(...this.filterItemsByRole(Array.from(this.items.values())));
+		const items = this.filterItemsByRole(Array.from(this.items.values()));
+		const shown = this.applyFilter(items);
+		rootItems.push(...shown, ...this.getLoadMorePlaceholder(undefined));
+		if (this.loadState === 'loaded' && items.length === 0) {
+			rootItems.push(new Item('no-items', 'No items', `Nothing available from ${this.source.description}`, 'empty'));
+		} else if (this.filter && shown.length === 0) {
+			const noMatches = new Item('no-matches', 'No matching items', `Filter: ${describeFilter(this.filter)} | Click to clear`, 'empty');
+			noMatches.command = { command: 'itemsExplorer.clearFilter', title: 'Clear Filter' };
+			rootItems.push(noMatches);
+		}
 		
 		return Promise.resolve(rootItems);
 	}
 
-	deleteItem(id: string): void {
-		this.items.delete(id);
+	/**
+	 * Children of an expanded item filtered by role and the tree filter.
+	 * Folders from a paging source load their first page the first time they are expanded.
+	 */
+	private async getFolderChildren(element: Item): Promise<Item[]> {
+		const isSourceFolder = element.itemType === 'folder' && this.catalog.some(entry => entry.id === element.id);
+		if (this.source.loadChildren && isSourceFolder && !this.pages.has(element.id)) {
+			const result = await this.loadPage(element.id, undefined);
+			if (!result.success) {
+				// Cancelled loads refresh the tree themselves
+				return result.errorCode === 'CANCELLED' ? [] : [this.getPageErrorItem(element.id, result)];
+			}
+		}
+		const children = this.filterItemsByRole(this.findItem(element.id)?.children ?? []);
+		return [...this.applyFilter(children), ...this.getLoadMorePlaceholder(element.id)];
 	}
 
-	addItem(id: string, label: string, description: string, itemType: string): void {
-		this.items.set(id, new Item(id, label, description, itemType));
-		this.refresh();
+	/**
+	 * "Load more..." node after the loaded children of a folder that has more pages
+	 */
+	private getLoadMorePlaceholder(parentId: string | undefined): Item[] {
+		const page = this.pages.get(parentId ?? ROOT_PAGE_KEY);
+		if (!page?.nextCursor) {
+			return [];
+		}
+		const loadMore = new Item(`load-more:${parentId ?? ROOT_PAGE_KEY}`, 'Load more...', `${page.items.length} loaded`, 'load-more');
+		loadMore.command = { command: 'itemsExplorer.loadMore', title: 'Load More', arguments: [parentId] };
+		return [loadMore];
+	}
+
+	private getPageErrorItem(parentId: string, result: ItemSourceResult): Item {
+		const errorItem = new Item(`items-error:${parentId}`, 'Could not load items', `${result.error} | Click to retry`, 'error');
+		errorItem.tooltip = `${this.source.description}: ${result.error}`;
+		errorItem.command = { command: 'itemsExplorer.loadMore', title: 'Retry', arguments: [parentId] };
+		return errorItem;
+	}
+
+	/**
+	 * Placeholder nodes for a running or failed load
+	 */
+	private getLoadPlaceholders(): Item[] {
+		if (this.loadState === 'loading' || this.loadState === 'idle') {
+			return [new Item('items-loading', 'Loading items...', this.source.description, 'loading')];
+		}
+		if (this.loadState !== 'failed' || !this.loadResult) {
+			return [];
+		}
+
+		const result = this.loadResult;
+		const errorItem = new Item(
+			'items-error',
+			'Could not load items',
+			result.errorCode === 'NOT_CONFIGURED' ? `${result.error} | Click to open settings` : `${result.error} | Click to retry`,
+			'error'
+		);
+		errorItem.tooltip = `${this.source.description}: ${result.error}`;
+		errorItem.command = result.errorCode === 'NOT_CONFIGURED'
+			? { command: 'workbench.action.openSettings', title: 'Open Settings', arguments: [result.setting ?? 'avro.items'] }
+			: { command: 'itemsExplorer.refreshItems', title: 'Retry' };
+		return [errorItem];
+	}
+
+	/**
+	 * Finds an item by id once the running load finished, asking the item source for items in folders
+	 * that were not loaded yet, e.g. for editors restored at startup
+	 */
+	async resolveItem(id: string): Promise<Item | undefined> {
+		await this.pendingLoad;
+		const loaded = this.findItem(id);
+		if (loaded || !this.isAuthenticated || this.hasAllItems()) {
+			return loaded;
+		}
+		const result = this.source.loadItem ? await this.source.loadItem(id) : undefined;
+		// Local items are looked up in the store, items of the source get their stored changes
+		const entry = this.store.apply(result?.success ? result.items : []).find(candidate => candidate.id === id);
+		return entry ? buildItemTree([{ ...entry, parentId: undefined }], this.expandedIds).get(id) : undefined;
+	}
+
+	/**
+	 * Whether the tree holds the whole catalog, false while the source loads folders as they are expanded
+	 */
+	hasAllItems(): boolean {
+		return !this.source.loadChildren;
+	}
+
+	/**
+	 * Find an item anywhere in the tree
+	 */
+	findItem(id: string, items: Iterable<Item> = this.items.values()): Item | undefined {
+		for (const item of items) {
+			const found = item.id === id ? item : this.findItem(id, item.children ?? []);
+			if (found) {
+				return found;
+			}
+		}
+		return undefined;
+	}
+
+	/**
+	 * Parent of an item for TreeView.reveal, status and placeholder nodes are root nodes
+	 */
+	getParent(element: Item): Item | undefined {
+		return this.findParent(element.id);
+	}
+
+	/**
+	 * All items the user can see at any depth, with the labels of their folders, ignoring the tree filter
+	 */
+	listItems(): { item: Item; path: string[] }[] {
+		const list = (items: Item[], path: string[]): { item: Item; path: string[] }[] =>
+			this.filterVisibleItems(items).flatMap(item => [
+				{ item, path },
+				...list(item.children ?? [], [...path, item.label])
+			]);
+		return this.isAuthenticated || this.isOffline ? list(Array.from(this.items.values()), []) : [];
+	}
+
+	/**
+	 * Tags used by any item, sorted, e.g. to offer them in the filter
+	 */
+	getTags(): string[] {
+		const tags = new Set<string>();
+		const collect = (items: Iterable<Item>) => {
+			for (const item of items) {
+				item.tags?.forEach(tag => tags.add(tag));
+				collect(item.children ?? []);
+			}
+		};
+		collect(this.items.values());
+		return [...tags].sort((a, b) => a.localeCompare(b));
+	}
+
+	/**
+	 * Find the folder containing an item, undefined for root items
+	 */
+	findParent(id: string, items: Iterable<Item> = this.items.values()): Item | undefined {
+		for (const item of items) {
+			if (item.children?.some(child => child.id === id)) {
+				return item;
+			}
+			const found = this.findParent(id, item.children ?? []);
+			if (found) {
+				return found;
+			}
+		}
+		return undefined;
+	}
+
+	/**
+	 * Folders the user can see, flattened, e.g. as move targets
+	 */
+	getFolders(items: Item[] = Array.from(this.items.values())): Item[] {
+		return this.filterItemsByRole(items).flatMap(item =>
+			item.itemType === 'folder' ? [item, ...this.getFolders(item.children ?? [])] : []);
+	}
+
+	/**
+	 * Returns why a new item cannot be named like this inside the parent (root when undefined):
+	 * illegal names and names already used by a sibling, including siblings hidden by role filtering
+	 */
+	validateNewItemName(parentId: string | undefined, name: string): string | undefined {
+		const error = validateItemName(name);
+		if (error) {
+			return error;
+		}
+		const siblings = parentId === undefined ? Array.from(this.items.values()) : this.findItem(parentId)?.children ?? [];
+		const normalized = name.trim().toLowerCase();
+		if (siblings.some(sibling => sibling.label.toLowerCase() === normalized)) {
+			return `"${name.trim()}" already exists here`;
+		}
+		return undefined;
+	}
+
+	/**
+	 * The items of a tree selection as currently built, without status and placeholder nodes
+	 * and without items that are inside another selected item
+	 */
+	getSelectionRoots(selection: readonly Item[]): Item[] {
+		const items = selection.flatMap(selected => {
+			const item = this.findItem(selected.id);
+			return item ? [item] : [];
+		});
+		return items.filter(item => !items.some(other => other !== item && collectIds(other).includes(item.id)));
+	}
+
+	/**
+	 * Deletes items with everything below them, at any depth
+	 */
+	async deleteItems(ids: string[]): Promise<DeleteResult> {
+		const removed: string[] = [];
+		for (const id of ids) {
+			const item = this.findItem(id);
+			if (!item) {
+				return { success: false, error: `Item "${id}" not found` };
+			}
+			removed.push(...collectIds(item));
+		}
+		return this.store.delete([...new Set(removed)]);
+	}
+
+	/**
+	 * Catalog entries of items and the descendants the tree shows, offline too, e.g. to save them as an items file.
+	 * The given items become root items of the export.
+	 */
+	exportItems(ids: string[]): CatalogItem[] {
+		const toEntry = (item: Item, parentId: string | undefined): CatalogItem[] => [
+			{
+				id: item.id,
+				parentId,
+				label: item.label,
+				description: item.description || undefined,
+				type: item.itemType as CatalogItemType,
+				requiredRole: item.requiredRole,
+				permissions: item.requiredPermissions,
+				content: item.content,
+				tags: item.tags
+			},
+			...this.filterVisibleItems(item.children ?? []).flatMap(child => toEntry(child, item.id))
+		];
+		return ids.flatMap(id => {
+			const item = this.findItem(id);
+			return item ? this.filterVisibleItems([item]).flatMap(visible => toEntry(visible, undefined)) : [];
+		});
+	}
+
+	/**
+	 * Creates an item, at the root or inside the folder with parentId
+	 * @param content - Initial content of a file item
+	 */
+	addItem(
+		id: string,
+		label: string,
+		description: string,
+		itemType: CatalogItemType,
+		parentId?: string,
+		content?: string
+	): Promise<ItemStoreResult> {
+		const error = this.validateNewItemName(parentId, label);
+		if (error) {
+			return Promise.resolve({ success: false, error });
+		}
+		if (parentId !== undefined && this.findItem(parentId)?.itemType !== 'folder') {
+			return Promise.resolve({ success: false, error: 'Items can only be created inside folders' });
+		}
+		return this.store.add({ id, label: label.trim(), description, type: itemType, parentId, content });
+	}
+
+	/**
+	 * Changes the label and description of an item
+	 */
+	editItem(id: string, change: { label?: string; description?: string }): Promise<ItemStoreResult> {
+		return this.store.edit(id, change);
+	}
+
+	/**
+	 * Runs an action item through the item source
+	 */
+	executeAction(id: string, cancellation?: vscode.CancellationToken): Promise<ActionResult> {
+		if (!this.source.executeAction) {
+			return Promise.resolve({
+				success: false,
+				error: `Actions cannot run with ${this.source.description} as item source, set avro.items.source to "api"`
+			});
+		}
+		return this.source.executeAction(id, cancellation);
+	}
+
+	/**
+	 * Saves the content of a file item
+	 */
+	writeItemContent(id: string, content: string): Promise<ItemStoreResult> {
+		const source = this.catalog.find(entry => entry.id === id);
+		return this.store.writeContent(id, content, source ? { content: source.content } : undefined);
+	}
+
+	/**
+	 * Ends a content conflict by keeping the stored content or going back to the item source content
+	 */
+	resolveContentConflict(id: string, keep: 'stored' | 'source'): Promise<ItemStoreResult> {
+		if (keep === 'source') {
+			return this.store.discardContent(id);
+		}
+		const source = this.catalog.find(entry => entry.id === id);
+		return source
+			? this.store.rebaseContent(id, { content: source.content })
+			: Promise.resolve({ success: false, error: `Item "${id}" is not in the item source` });
+	}
+
+	/**
+	 * Moves items into a folder, or to the root when parentId is undefined.
+	 * Items inside another moved item move along with it and are not moved themselves.
+	 * @param beforeId - Sibling in the target to place the items in front of, at the end when undefined
+	 */
+	async moveItems(ids: string[], parentId: string | undefined, beforeId?: string): Promise<ItemStoreResult> {
+		const items: Item[] = [];
+		for (const id of ids) {
+			const item = this.findItem(id);
+			if (!item) {
+				return { success: false, error: `Item "${id}" not found` };
+			}
+			items.push(item);
+		}
+		const moved = items.filter(item => !items.some(other => other !== item && collectIds(other).includes(item.id)));
+		if (moved.length === 0) {
+			return { success: false, error: 'Nothing to move' };
+		}
+
+		let siblings = Array.from(this.items.values());
+		if (parentId !== undefined) {
+			const parent = this.findItem(parentId);
+			if (!parent || parent.itemType !== 'folder') {
+				return { success: false, error: 'Items can only be moved into folders' };
+			}
+			const ancestor = moved.find(item => collectIds(item).includes(parentId));
+			if (ancestor) {
+				return { success: false, error: `"${ancestor.label}" cannot be moved into itself` };
+			}
+			siblings = parent.children ?? [];
+		}
+
+		// New order of the target: the remaining children with the moved items inserted
+		const movedIds = new Set(moved.map(item => item.id));
+		const order = siblings.map(sibling => sibling.id).filter(id => !movedIds.has(id));
+		const index = beforeId !== undefined ? order.indexOf(beforeId) : -1;
+		order.splice(index === -1 ? order.length : index, 0, ...movedIds);
+		return this.store.move([...movedIds], parentId, order);
+	}
+
+	/**
+	 * Whether the last move can be undone
+	 */
+	canUndoMove(): boolean {
+		return this.store.canUndoMove();
+	}
+
+	/**
+	 * Puts the items of the last move back where they were
+	 */
+	undoLastMove(): Promise<ItemStoreResult> {
+		return this.store.undoMove();
 	}
 }
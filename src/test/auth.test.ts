@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { parseAcceptedPermissions, parseSsoHeader, parseTokenExpiration } from '../github/auth';
+
+describe('parseSsoHeader', () => {
+	it('reports no SSO requirement without a header', () => {
+		assert.deepStrictEqual(parseSsoHeader(null), { required: false });
+		assert.deepStrictEqual(parseSsoHeader(''), { required: false });
+	});
+
+	it('reads the requirement and the authorization URL', () => {
+		const url = 'https://github.com/orgs/octo-org/sso?authorization_request=abc';
+		assert.deepStrictEqual(parseSsoHeader(`required; url=${url}`), { required: true, url });
+	});
+
+	it('reads a partial SSO session without a requirement', () => {
+		assert.deepStrictEqual(parseSsoHeader('partial-results; organizations=21955855'), { required: false, url: undefined });
+	});
+
+	it('ignores the case of the directives', () => {
+		assert.strictEqual(parseSsoHeader('Required; URL=https://ghe.example.com/sso').url, 'https://ghe.example.com/sso');
+		assert.strictEqual(parseSsoHeader('Required').required, true);
+	});
+});
+
+describe('parseAcceptedPermissions', () => {
+	it('returns nothing without a header', () => {
+		assert.deepStrictEqual(parseAcceptedPermissions(null), []);
+		assert.deepStrictEqual(parseAcceptedPermissions(''), []);
+	});
+
+	it('labels known permissions as shown in the token settings', () => {
+		assert.deepStrictEqual(parseAcceptedPermissions('members=read'), ['Organization permissions > Members: read']);
+	});
+
+	it('lists every permission of the first alternative only', () => {
+		assert.deepStrictEqual(
+			parseAcceptedPermissions('members=read, administration=write; metadata=read'),
+			['Organization permissions > Members: read', 'administration: write']
+		);
+	});
+
+	it('defaults to read access when no level is given', () => {
+		assert.deepStrictEqual(parseAcceptedPermissions('contents'), ['contents: read']);
+	});
+});
+
+describe('parseTokenExpiration', () => {
+	it('returns undefined without a header', () => {
+		assert.strictEqual(parseTokenExpiration(null), undefined);
+	});
+
+	it('parses UTC timestamps', () => {
+		assert.strictEqual(parseTokenExpiration('2024-06-30 15:10:06 UTC')?.toISOString(), '2024-06-30T15:10:06.000Z');
+	});
+
+	it('parses timestamps with an offset', () => {
+		assert.strictEqual(parseTokenExpiration('2024-06-30 15:10:06 -0700')?.toISOString(), '2024-06-30T22:10:06.000Z');
+	});
+
+	it('returns undefined for values that are not dates', () => {
+		assert.strictEqual(parseTokenExpiration('never'), undefined);
+	});
+});
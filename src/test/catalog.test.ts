@@ -0,0 +1,81 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { parseCatalog, validateItemName } from '../items/catalog';
+
+describe('parseCatalog', () => {
+	it('accepts a bare array and an object with an "items" array', () => {
+		const items = [{ id: 'a', label: 'A', type: 'file' }];
+		assert.deepStrictEqual(parseCatalog(items).items.map(item => item.id), ['a']);
+		assert.deepStrictEqual(parseCatalog({ items }).items.map(item => item.id), ['a']);
+	});
+
+	it('rejects documents that are not a catalog', () => {
+		for (const data of [undefined, null, 'items', { items: 'a' }]) {
+			const result = parseCatalog(data);
+			assert.strictEqual(result.success, false);
+			assert.strictEqual(result.errorCode, 'INVALID_RESPONSE');
+		}
+	});
+
+	it('skips entries that do not match the schema and reports them', () => {
+		const result = parseCatalog([
+			{ id: 'a', label: 'A', type: 'folder' },
+			{ label: 'No id', type: 'file' },
+			{ id: 'b', label: 'B', type: 'widget' },
+			{ id: 'c', label: 'C', type: 'file', requiredRole: 'owner' },
+			{ id: 'd', label: 'D', type: 'file', permissions: 'deploy' },
+			{ id: 'a', label: 'Duplicate', type: 'file' }
+		]);
+		assert.strictEqual(result.success, true);
+		assert.deepStrictEqual(result.items.map(item => item.id), ['a']);
+		assert.deepStrictEqual(result.warnings, [
+			'Item 1: missing "id"',
+			'Item 2: "b" has unknown type "widget" (allowed: folder, file, action, item)',
+			'Item 3: "c" has unknown requiredRole "owner"',
+			'Item 4: "d" has invalid "permissions"',
+			'Item 5: duplicate id "a"'
+		]);
+	});
+
+	it('keeps only the known fields', () => {
+		const [item] = parseCatalog([{ id: 'a', label: 'A', type: 'file', content: 'text', extra: true }]).items;
+		assert.strictEqual(item.content, 'text');
+		assert.strictEqual((item as unknown as Record<string, unknown>).extra, undefined);
+	});
+
+	it('drops items with an unknown parent unless parents are not checked', () => {
+		const entries = [{ id: 'child', parentId: 'missing', label: 'Child', type: 'file' }];
+		const checked = parseCatalog(entries);
+		assert.deepStrictEqual(checked.items, []);
+		assert.deepStrictEqual(checked.warnings, ['Item "child": unknown parent "missing"']);
+		assert.deepStrictEqual(parseCatalog(entries, false).items.map(item => item.id), ['child']);
+	});
+});
+
+describe('validateItemName', () => {
+	it('accepts names that are valid file names', () => {
+		assert.strictEqual(validateItemName('Release notes v2.md'), undefined);
+		assert.strictEqual(validateItemName('  padded  '), undefined);
+	});
+
+	it('requires a name', () => {
+		assert.strictEqual(validateItemName(''), 'Enter a name');
+		assert.strictEqual(validateItemName('   '), 'Enter a name');
+	});
+
+	it('rejects relative path segments', () => {
+		assert.strictEqual(validateItemName('..'), '".." is not a valid name');
+		assert.strictEqual(validateItemName(' . '), '"." is not a valid name');
+	});
+
+	it('rejects characters that are not valid in file names', () => {
+		for (const name of ['a/b', 'a\\b', 'a:b', 'what?', 'tab\there']) {
+			assert.strictEqual(validateItemName(name), 'Names cannot contain \\ / : * ? " < > | or control characters');
+		}
+	});
+
+	it('limits the length', () => {
+		assert.strictEqual(validateItemName('a'.repeat(255)), undefined);
+		assert.strictEqual(validateItemName('a'.repeat(256)), 'Names can have at most 255 characters');
+	});
+});
@@ -0,0 +1,28 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { RateLimitInfo, errorCodeForStatus } from '../github/client';
+
+describe('errorCodeForStatus', () => {
+	const noRateLimit: RateLimitInfo = {};
+
+	it('returns undefined for successful responses', () => {
+		assert.strictEqual(errorCodeForStatus(200, noRateLimit), undefined);
+		assert.strictEqual(errorCodeForStatus(304, noRateLimit), undefined);
+	});
+
+	it('maps client and server errors', () => {
+		assert.strictEqual(errorCodeForStatus(401, noRateLimit), 'UNAUTHORIZED');
+		assert.strictEqual(errorCodeForStatus(403, noRateLimit), 'FORBIDDEN');
+		assert.strictEqual(errorCodeForStatus(404, noRateLimit), 'NOT_FOUND');
+		assert.strictEqual(errorCodeForStatus(422, noRateLimit), 'HTTP_ERROR');
+		assert.strictEqual(errorCodeForStatus(502, noRateLimit), 'SERVER_ERROR');
+	});
+
+	it('tells rate limits from permission errors', () => {
+		assert.strictEqual(errorCodeForStatus(429, noRateLimit), 'RATE_LIMITED');
+		assert.strictEqual(errorCodeForStatus(403, { remaining: 0 }), 'RATE_LIMITED');
+		assert.strictEqual(errorCodeForStatus(403, { retryAfter: 60 }), 'RATE_LIMITED');
+		assert.strictEqual(errorCodeForStatus(403, noRateLimit, '{"message":"API rate limit exceeded"}'), 'RATE_LIMITED');
+		assert.strictEqual(errorCodeForStatus(403, { remaining: 4999 }, '{"message":"Resource not accessible"}'), 'FORBIDDEN');
+	});
+});
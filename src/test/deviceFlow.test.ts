@@ -0,0 +1,159 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo, Socket } from 'net';
+import { describe, it } from 'node:test';
+import { DeviceCodeResponse, DeviceFlowResult, pollForAccessToken } from '../github/deviceFlow';
+import { CancellationSignal, GitHubConnection } from '../github/http';
+
+/** Answer of the mock token endpoint to one poll, 'hang' never answers */
+type PollAnswer = Record<string, unknown> | 'hang';
+
+const deviceCode: DeviceCodeResponse = {
+	device_code: 'device-123',
+	user_code: 'ABCD-1234',
+	verification_uri: 'https://github.com/login/device',
+	expires_in: 60,
+	interval: 0
+};
+
+/**
+ * Runs a poll against a local token endpoint that gives the answers in order, then authorization_pending.
+ * Returns the poll result and the form bodies of the requests it received.
+ */
+async function pollMockServer(
+	answers: PollAnswer[],
+	poll: (connection: GitHubConnection, polls: URLSearchParams[]) => Promise<DeviceFlowResult>
+): Promise<{ result: DeviceFlowResult; polls: URLSearchParams[] }> {
+	const polls: URLSearchParams[] = [];
+	const sockets = new Set<Socket>();
+	const server = http.createServer((req, res) => {
+		let body = '';
+		req.on('data', chunk => body += chunk);
+		req.on('end', () => {
+			polls.push(new URLSearchParams(body));
+			const answer = answers.shift() ?? { error: 'authorization_pending' };
+			if (answer !== 'hang') {
+				res.setHeader('Content-Type', 'application/json');
+				res.end(JSON.stringify(answer));
+			}
+		});
+	});
+	server.on('connection', socket => {
+		sockets.add(socket);
+		socket.on('close', () => sockets.delete(socket));
+	});
+	await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+	try {
+		const { port } = server.address() as AddressInfo;
+		const connection = { apiBaseUrl: `http://127.0.0.1:${port}/api/v3`, webBaseUrl: `http://127.0.0.1:${port}` };
+		return { result: await poll(connection, polls), polls };
+	} finally {
+		sockets.forEach(socket => socket.destroy());
+		await new Promise(resolve => server.close(resolve));
+	}
+}
+
+/**
+ * Cancellation signal that can be triggered from the test
+ */
+function createCancellation(): CancellationSignal & { cancel(): void } {
+	const listeners = new Set<() => void>();
+	let cancelled = false;
+	return {
+		get isCancellationRequested() {
+			return cancelled;
+		},
+		onCancellationRequested: listener => {
+			listeners.add(listener);
+			return { dispose: () => listeners.delete(listener) };
+		},
+		cancel: () => {
+			cancelled = true;
+			listeners.forEach(listener => listener());
+		}
+	};
+}
+
+describe('pollForAccessToken', () => {
+	it('polls while authorization is pending and returns the token', async () => {
+		const { result, polls } = await pollMockServer(
+			[{ error: 'authorization_pending' }, { error: 'authorization_pending' }, { access_token: 'gho_token', scope: 'read:org' }],
+			connection => pollForAccessToken('client-1', deviceCode, connection)
+		);
+		assert.deepStrictEqual(result, { success: true, accessToken: 'gho_token', scope: 'read:org' });
+		assert.strictEqual(polls.length, 3);
+		assert.strictEqual(polls[0].get('client_id'), 'client-1');
+		assert.strictEqual(polls[0].get('device_code'), 'device-123');
+		assert.strictEqual(polls[0].get('grant_type'), 'urn:ietf:params:oauth:grant-type:device_code');
+	});
+
+	it('keeps polling after slow_down', async () => {
+		const { result, polls } = await pollMockServer(
+			[{ error: 'slow_down', interval: 0 }, { access_token: 'gho_token' }],
+			connection => pollForAccessToken('client-1', deviceCode, connection)
+		);
+		assert.strictEqual(result.accessToken, 'gho_token');
+		assert.strictEqual(polls.length, 2);
+	});
+
+	it('stops when the device code expired', async () => {
+		const { result } = await pollMockServer(
+			[{ error: 'expired_token' }],
+			connection => pollForAccessToken('client-1', deviceCode, connection)
+		);
+		assert.strictEqual(result.success, false);
+		assert.strictEqual(result.errorCode, 'expired_token');
+	});
+
+	it('stops without polling once the device code lifetime passed', async () => {
+		const { result, polls } = await pollMockServer(
+			[],
+			connection => pollForAccessToken('client-1', { ...deviceCode, expires_in: 0 }, connection)
+		);
+		assert.strictEqual(result.errorCode, 'expired_token');
+		assert.strictEqual(polls.length, 0);
+	});
+
+	it('stops when authorization was denied', async () => {
+		const { result } = await pollMockServer(
+			[{ error: 'access_denied' }],
+			connection => pollForAccessToken('client-1', deviceCode, connection)
+		);
+		assert.strictEqual(result.success, false);
+		assert.strictEqual(result.errorCode, 'access_denied');
+		assert.strictEqual(result.error, 'Authorization was denied in the browser');
+	});
+
+	it('reports unknown errors with their description', async () => {
+		const { result } = await pollMockServer(
+			[{ error: 'incorrect_client_credentials', error_description: 'The client_id is not valid.' }],
+			connection => pollForAccessToken('client-1', deviceCode, connection)
+		);
+		assert.strictEqual(result.errorCode, 'incorrect_client_credentials');
+		assert.strictEqual(result.error, 'The client_id is not valid.');
+	});
+
+	it('stops a running poll when cancelled', async () => {
+		const cancellation = createCancellation();
+		const { result, polls } = await pollMockServer(['hang'], async (connection, received) => {
+			const polling = pollForAccessToken('client-1', deviceCode, connection, cancellation);
+			while (received.length === 0) {
+				await new Promise(resolve => setTimeout(resolve, 5));
+			}
+			cancellation.cancel();
+			return polling;
+		});
+		assert.deepStrictEqual(result, { success: false, error: 'Cancelled', errorCode: 'CANCELLED' });
+		assert.strictEqual(polls.length, 1);
+	});
+
+	it('retries a poll that timed out', async () => {
+		const { result, polls } = await pollMockServer(
+			['hang', { access_token: 'gho_token' }],
+			connection => pollForAccessToken('client-1', deviceCode, connection, undefined, 50)
+		);
+		assert.strictEqual(result.accessToken, 'gho_token');
+		assert.strictEqual(polls.length, 2);
+	});
+});
@@ -0,0 +1,23 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { deriveWebBaseUrl } from '../github/http';
+
+describe('deriveWebBaseUrl', () => {
+	it('maps the github.com API to github.com', () => {
+		assert.strictEqual(deriveWebBaseUrl('https://api.github.com'), 'https://github.com');
+		assert.strictEqual(deriveWebBaseUrl('https://api.github.com/'), 'https://github.com');
+	});
+
+	it('strips /api/v3 from Enterprise Server URLs', () => {
+		assert.strictEqual(deriveWebBaseUrl('https://ghe.example.com/api/v3'), 'https://ghe.example.com');
+		assert.strictEqual(deriveWebBaseUrl('https://ghe.example.com/API/v3/'), 'https://ghe.example.com');
+	});
+
+	it('uses the origin of other URLs', () => {
+		assert.strictEqual(deriveWebBaseUrl('http://localhost:3000/mock/api'), 'http://localhost:3000');
+	});
+
+	it('throws for values without a scheme', () => {
+		assert.throws(() => deriveWebBaseUrl('ghe.example.com'));
+	});
+});
@@ -0,0 +1,51 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { FilterableItem, isFilterActive, matchesFilter, parseItemFilter } from '../items/itemFilter';
+
+describe('matchesFilter', () => {
+	const report: FilterableItem = { label: 'Weekly Report', description: 'Sales figures', itemType: 'file', tags: ['docs', 'sales'] };
+	const deploy: FilterableItem = { label: 'Deploy', itemType: 'action' };
+
+	it('matches everything with an empty filter', () => {
+		assert.strictEqual(matchesFilter(report, {}), true);
+		assert.strictEqual(matchesFilter(deploy, { text: '  ', types: [], tags: [] }), true);
+	});
+
+	it('searches labels and descriptions case-insensitively', () => {
+		assert.strictEqual(matchesFilter(report, { text: 'weekly' }), true);
+		assert.strictEqual(matchesFilter(report, { text: ' FIGURES ' }), true);
+		assert.strictEqual(matchesFilter(report, { text: 'deploy' }), false);
+	});
+
+	it('ignores descriptions that are not text', () => {
+		assert.strictEqual(matchesFilter({ ...deploy, description: true }, { text: 'true' }), false);
+	});
+
+	it('matches any of the types and any of the tags', () => {
+		assert.strictEqual(matchesFilter(report, { types: ['folder', 'file'] }), true);
+		assert.strictEqual(matchesFilter(deploy, { types: ['file'] }), false);
+		assert.strictEqual(matchesFilter(report, { tags: ['ops', 'sales'] }), true);
+		assert.strictEqual(matchesFilter(deploy, { tags: ['ops'] }), false);
+	});
+
+	it('requires all criteria to match', () => {
+		assert.strictEqual(matchesFilter(report, { text: 'report', types: ['file'], tags: ['docs'] }), true);
+		assert.strictEqual(matchesFilter(report, { text: 'report', types: ['action'], tags: ['docs'] }), false);
+		assert.strictEqual(matchesFilter(report, { text: 'deploy', types: ['file'], tags: ['docs'] }), false);
+	});
+});
+
+describe('parseItemFilter', () => {
+	it('drops unknown types and values that are not strings', () => {
+		assert.deepStrictEqual(
+			parseItemFilter({ text: 42, types: ['file', 'widget'], tags: ['docs', 7] }),
+			{ text: undefined, types: ['file'], tags: ['docs'] }
+		);
+	});
+
+	it('returns undefined for filters that restrict nothing', () => {
+		assert.strictEqual(parseItemFilter({ text: ' ' }), undefined);
+		assert.strictEqual(parseItemFilter('report'), undefined);
+		assert.strictEqual(isFilterActive(undefined), false);
+	});
+});
@@ -0,0 +1,229 @@
+// Registers the vscode stand-in, so it has to be imported before the store
+import { MemoryMemento } from './vscodeStub';
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import * as vscode from 'vscode';
+import { CatalogItem } from '../items/catalog';
+import { DELETE_UNDO_MS, ITEM_STORE_VERSION, ItemStore } from '../items/itemStore';
+
+const scope = { org: 'octo-org', source: 'https://avro.example.com/api' };
+const stateKey = 'avro.itemStore/octo-org/https://avro.example.com/api';
+
+const catalog: CatalogItem[] = [
+	{ id: 'docs', label: 'Docs', type: 'folder' },
+	{ id: 'guide', parentId: 'docs', label: 'Guide', type: 'file', content: 'v1' },
+	{ id: 'deploy', label: 'Deploy', type: 'action', requiredRole: 'admin', permissions: ['deploy'] }
+];
+
+/**
+ * A store without workspace folder, scoped to the test organization, with the given document stored
+ */
+async function createStore(stored?: unknown): Promise<{ store: ItemStore; state: MemoryMemento }> {
+	const state = new MemoryMemento();
+	if (stored !== undefined) {
+		await state.update(stateKey, stored);
+	}
+	const store = new ItemStore(state as unknown as vscode.Memento);
+	await store.setScope(scope);
+	return { store, state };
+}
+
+function byId(items: CatalogItem[]): Record<string, CatalogItem> {
+	return Object.fromEntries(items.map(item => [item.id, item]));
+}
+
+describe('ItemStore migrations', () => {
+	it('upgrades a bare array of local items and saves the current version', async () => {
+		const { store, state } = await createStore([{ id: 'note', label: 'Note', type: 'file' }]);
+		assert.deepStrictEqual(store.apply([]).map(item => item.id), ['note']);
+		assert.strictEqual(state.get<{ version: number }>(stateKey)?.version, ITEM_STORE_VERSION);
+	});
+
+	it('keeps edits, deletions and string contents of version 1 documents', async () => {
+		const { store } = await createStore({
+			version: 1,
+			items: [],
+			changes: { guide: { label: 'User Guide' } },
+			deleted: ['deploy']
+		});
+		const items = byId(store.apply(catalog));
+		assert.strictEqual(items.guide.label, 'User Guide');
+		assert.strictEqual(items.deploy, undefined);
+	});
+
+	it('moves version 3 contents into content records', async () => {
+		const { store, state } = await createStore({
+			version: 3,
+			items: [],
+			changes: {},
+			deleted: [],
+			contents: { guide: 'edited', broken: 42 },
+			order: {}
+		});
+		assert.strictEqual(byId(store.apply(catalog)).guide.content, 'edited');
+		assert.deepStrictEqual(state.get<{ contents: unknown }>(stateKey)?.contents, { guide: { content: 'edited' } });
+	});
+
+	it('refuses changes to documents of a newer version instead of overwriting them', async () => {
+		const newer = { version: ITEM_STORE_VERSION + 1, items: [] };
+		const { store, state } = await createStore(newer);
+		const result = await store.edit('guide', { label: 'Renamed' });
+		assert.strictEqual(result.success, false);
+		assert.deepStrictEqual(state.get(stateKey), newer);
+	});
+
+	it('only applies labels, descriptions and parents from stored changes', async () => {
+		const { store } = await createStore({
+			version: ITEM_STORE_VERSION,
+			items: [],
+			changes: {
+				deploy: { label: 'Ship', requiredRole: 'member', permissions: [], type: 'file', content: 'x' },
+				guide: { description: 42, parentId: null }
+			},
+			deleted: [],
+			contents: {},
+			order: {}
+		});
+		const items = byId(store.apply(catalog));
+		assert.deepStrictEqual(items.deploy, { ...catalog[2], label: 'Ship' });
+		assert.strictEqual(items.guide.description, undefined);
+		assert.strictEqual(items.guide.parentId, null);
+	});
+
+	it('drops order lists that are not arrays of ids', async () => {
+		const { store } = await createStore({
+			version: ITEM_STORE_VERSION,
+			items: [],
+			changes: {},
+			deleted: [],
+			contents: {},
+			order: { '': ['deploy', 7, 'docs'], docs: 'guide' }
+		});
+		assert.deepStrictEqual(store.apply(catalog).map(item => item.id), ['deploy', 'docs', 'guide']);
+	});
+});
+
+describe('ItemStore moves', () => {
+	it('moves items under another parent in the given order', async () => {
+		const { store } = await createStore();
+		assert.strictEqual((await store.move(['deploy'], 'docs', ['deploy', 'guide'])).success, true);
+		const items = store.apply(catalog);
+		assert.strictEqual(byId(items).deploy.parentId, 'docs');
+		assert.deepStrictEqual(items.filter(item => item.parentId === 'docs').map(item => item.id), ['deploy', 'guide']);
+	});
+
+	it('undoes the last move of item source and local items', async () => {
+		const { store } = await createStore();
+		await store.add({ id: 'note', parentId: 'docs', label: 'Note', type: 'file' });
+		await store.move(['guide'], undefined, ['guide', 'docs', 'deploy']);
+		await store.move(['note', 'deploy'], undefined, ['note', 'deploy', 'guide', 'docs']);
+		assert.strictEqual(store.canUndoMove(), true);
+
+		assert.strictEqual((await store.undoMove()).success, true);
+		const items = store.apply(catalog);
+		assert.strictEqual(byId(items).note.parentId, 'docs');
+		assert.strictEqual(byId(items).deploy.parentId, undefined);
+		// The first move stays
+		assert.strictEqual(byId(items).guide.parentId, null);
+		assert.deepStrictEqual(items.filter(item => !item.parentId).map(item => item.id), ['guide', 'docs', 'deploy']);
+		assert.strictEqual(store.canUndoMove(), false);
+	});
+
+	it('has nothing to undo without a move or after the scope changed', async () => {
+		const { store } = await createStore();
+		assert.strictEqual((await store.undoMove()).success, false);
+
+		await store.move(['deploy'], 'docs', ['deploy', 'guide']);
+		await store.setScope({ ...scope, org: 'other-org' });
+		await store.setScope(scope);
+		assert.strictEqual(store.canUndoMove(), false);
+	});
+});
+
+describe('ItemStore deletes', () => {
+	it('deletes item source and local items and restores them with their edits', async () => {
+		const { store } = await createStore();
+		await store.add({ id: 'note', parentId: 'docs', label: 'Note', type: 'file' });
+		await store.edit('guide', { label: 'User Guide' });
+		await store.writeContent('guide', 'edited', catalog[1]);
+
+		const result = await store.delete(['docs', 'guide', 'note']);
+		assert.strictEqual(result.success, true);
+		assert.deepStrictEqual(store.apply(catalog).map(item => item.id), ['deploy']);
+
+		assert.ok(result.undo);
+		assert.strictEqual((await result.undo()).success, true);
+		const items = byId(store.apply(catalog));
+		assert.deepStrictEqual(Object.keys(items).sort(), ['deploy', 'docs', 'guide', 'note']);
+		assert.strictEqual(items.guide.label, 'User Guide');
+		assert.strictEqual(items.guide.content, 'edited');
+	});
+
+	it('can no longer be undone once the undo time passed', async () => {
+		const { store } = await createStore();
+		const result = await store.delete(['deploy']);
+		assert.ok(result.undo);
+		const now = Date.now;
+		Date.now = () => now() + DELETE_UNDO_MS + 1;
+		try {
+			assert.strictEqual((await result.undo()).success, false);
+		} finally {
+			Date.now = now;
+		}
+		assert.strictEqual(byId(store.apply(catalog)).deploy, undefined);
+	});
+
+	it('can no longer be undone after the scope changed', async () => {
+		const { store } = await createStore();
+		const result = await store.delete(['deploy']);
+		await store.setScope({ ...scope, org: 'other-org' });
+		await store.setScope(scope);
+		assert.ok(result.undo);
+		assert.strictEqual((await result.undo()).success, false);
+	});
+});
+
+describe('ItemStore content conflicts', () => {
+	const changed = (content: string) => catalog.map(item => item.id === 'guide' ? { ...item, content } : item);
+
+	it('reports stored content whose item source content changed since the edit', async () => {
+		const { store } = await createStore();
+		await store.writeContent('guide', 'mine', catalog[1]);
+		assert.deepStrictEqual(store.getContentConflicts(catalog), []);
+		assert.deepStrictEqual(store.getContentConflicts(changed('v2')), ['guide']);
+	});
+
+	it('keeps the base of the first edit on later saves', async () => {
+		const { store } = await createStore();
+		await store.writeContent('guide', 'mine', catalog[1]);
+		await store.writeContent('guide', 'mine again', { content: 'v2' });
+		assert.deepStrictEqual(store.getContentConflicts(changed('v2')), ['guide']);
+	});
+
+	it('ends the conflict when the edit is rebased or discarded', async () => {
+		const { store } = await createStore();
+		await store.writeContent('guide', 'mine', catalog[1]);
+		await store.rebaseContent('guide', { content: 'v2' });
+		assert.deepStrictEqual(store.getContentConflicts(changed('v2')), []);
+		assert.strictEqual(byId(store.apply(changed('v2'))).guide.content, 'mine');
+
+		await store.writeContent('guide', 'mine', { content: 'v2' });
+		await store.discardContent('guide');
+		assert.deepStrictEqual(store.getContentConflicts(changed('v3')), []);
+		assert.strictEqual(byId(store.apply(changed('v3'))).guide.content, 'v3');
+	});
+
+	it('never reports local items and edits stored without a base', async () => {
+		const { store } = await createStore({
+			version: 3,
+			items: [],
+			changes: {},
+			deleted: [],
+			contents: { guide: 'edited' },
+			order: {}
+		});
+		await store.add({ id: 'note', label: 'Note', type: 'file' });
+		await store.writeContent('note', 'text');
+		assert.deepStrictEqual(store.getContentConflicts([...changed('v2'), { id: 'note', label: 'Note', type: 'file', content: 'x' }]), []);
+	});
+});
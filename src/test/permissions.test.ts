@@ -0,0 +1,82 @@
+import * as assert from 'assert';
+import { describe, it } from 'node:test';
+import { AuthSession } from '../auth/authService';
+import { checkPermission, resolveTeamPermissions } from '../auth/permissions';
+
+describe('resolveTeamPermissions', () => {
+	const permissionsByTeam = new Map([
+		['platform', ['deploy', 'reports']],
+		['qa', ['reports', 'test']]
+	]);
+
+	it('combines the permissions of all teams, sorted and without duplicates', () => {
+		assert.deepStrictEqual(resolveTeamPermissions(['platform', 'qa'], permissionsByTeam), ['deploy', 'reports', 'test']);
+	});
+
+	it('matches team slugs case-insensitively', () => {
+		assert.deepStrictEqual(resolveTeamPermissions(['QA'], permissionsByTeam), ['reports', 'test']);
+	});
+
+	it('grants nothing for unmapped teams', () => {
+		assert.deepStrictEqual(resolveTeamPermissions(['design'], permissionsByTeam), []);
+		assert.deepStrictEqual(resolveTeamPermissions([], permissionsByTeam), []);
+	});
+});
+
+describe('checkPermission', () => {
+	const member: AuthSession = { state: 'authenticated', role: 'member', teamAccess: { teams: ['QA'], permissions: ['test'] } };
+	const admin: AuthSession = { state: 'authenticated', role: 'admin', teamAccess: { teams: [], permissions: [] } };
+
+	it('asks signed-out and unverified sessions to sign in', () => {
+		for (const state of ['signed-out', 'unverified'] as const) {
+			const decision = checkPermission({ state }, { role: 'member' }, 'Edit Item');
+			assert.strictEqual(decision.allowed, false);
+			assert.strictEqual(decision.needsSignIn, true);
+		}
+	});
+
+	it('requires the role, admins satisfy member requirements', () => {
+		assert.strictEqual(checkPermission(member, { role: 'member' }, 'Edit Item').allowed, true);
+		assert.strictEqual(checkPermission(admin, { role: 'member' }, 'Edit Item').allowed, true);
+
+		const denied = checkPermission(member, { role: 'admin' }, 'Delete Item');
+		assert.strictEqual(denied.allowed, false);
+		assert.strictEqual(denied.reason, 'Delete Item requires admin (your role: member).');
+	});
+
+	it('requires all team permissions', () => {
+		assert.strictEqual(checkPermission(member, { permissions: ['test'] }, 'Execute').allowed, true);
+
+		const denied = checkPermission(member, { permissions: ['test', 'deploy'] }, 'Execute');
+		assert.strictEqual(denied.allowed, false);
+		assert.strictEqual(denied.reason, 'Execute requires the "deploy" permission (your teams: QA).');
+	});
+
+	it('checks the previewed access instead of the verified one', () => {
+		const previewing: AuthSession = { ...admin, preview: { role: 'member', teamAccess: { teams: [], permissions: [] } } };
+		const denied = checkPermission(previewing, { role: 'admin' }, 'Delete Item');
+		assert.strictEqual(denied.allowed, false);
+		assert.strictEqual(denied.reason, 'Delete Item requires admin (your role: member, previewing).');
+	});
+
+	it('only allows read-only requirements offline', () => {
+		const offline: AuthSession = { state: 'offline', cachedRole: 'admin' };
+		assert.strictEqual(checkPermission(offline, { role: 'member', allowOffline: true }, 'Open Item').allowed, true);
+		assert.strictEqual(checkPermission(offline, { role: 'member' }, 'Edit Item').allowed, false);
+	});
+
+	it('checks the cached role offline', () => {
+		const offline: AuthSession = { state: 'offline', cachedRole: 'member' };
+		const denied = checkPermission(offline, { role: 'admin', allowOffline: true }, 'Open Item');
+		assert.strictEqual(denied.allowed, false);
+		assert.strictEqual(denied.reason, 'Open Item requires admin (cached role: member, offline).');
+
+		const unknownRole = checkPermission({ state: 'offline' }, { role: 'member', allowOffline: true }, 'Open Item');
+		assert.strictEqual(unknownRole.allowed, false);
+	});
+
+	it('denies team permission requirements offline', () => {
+		const offline: AuthSession = { state: 'offline', cachedRole: 'admin' };
+		assert.strictEqual(checkPermission(offline, { permissions: ['test'], allowOffline: true }, 'Open Item').allowed, false);
+	});
+});
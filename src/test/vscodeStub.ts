@@ -0,0 +1,63 @@
+import Module = require('module');
+
+/**
+ * Minimal stand-in for the parts of the vscode API that modules under test use outside the extension host:
+ * event emitters, a workspace without folders and notifications that are never answered.
+ * Import it before the module under test.
+ */
+class EventEmitter<T> {
+	private listeners: ((value: T) => void)[] = [];
+
+	readonly event = (listener: (value: T) => void) => {
+		this.listeners.push(listener);
+		return { dispose: () => this.listeners.splice(this.listeners.indexOf(listener), 1) };
+	};
+
+	fire(value: T): void {
+		[...this.listeners].forEach(listener => listener(value));
+	}
+
+	dispose(): void {
+		this.listeners = [];
+	}
+}
+
+const vscodeStub = {
+	EventEmitter,
+	workspace: {
+		workspaceFolders: undefined
+	},
+	window: {
+		showWarningMessage: () => Promise.resolve(undefined)
+	}
+};
+
+const moduleLoader = Module as unknown as { _load(request: string, ...rest: unknown[]): unknown };
+const load = moduleLoader._load;
+moduleLoader._load = function (request: string, ...rest: unknown[]) {
+	return request === 'vscode' ? vscodeStub : load.call(this, request, ...rest);
+};
+
+/**
+ * In-memory vscode.Memento, e.g. for workspaceState
+ */
+export class MemoryMemento {
+	private readonly values = new Map<string, unknown>();
+
+	keys(): readonly string[] {
+		return [...this.values.keys()];
+	}
+
+	get<T>(key: string, defaultValue?: T): T | undefined {
+		return this.values.has(key) ? this.values.get(key) as T : defaultValue;
+	}
+
+	update(key: string, value: unknown): Promise<void> {
+		if (value === undefined) {
+			this.values.delete(key);
+		} else {
+			this.values.set(key, JSON.parse(JSON.stringify(value)));
+		}
+		return Promise.resolve();
+	}
+}
@@ -0,0 +1,124 @@
+import * as vscode from 'vscode';
+import { AuthErrorCode, TokenKind } from '../github/auth';
+import { webUrl } from '../github/http';
+import { getGitHubConnection } from '../utils/config';
+
+interface RemediationAction {
+	label: string;
+	run(): void | Thenable<unknown>;
+}
+
+/**
+ * Extra details about a failure used to pick more precise remediation actions
+ */
+export interface AuthErrorHints {
+	/** SAML SSO authorization URL from the X-GitHub-SSO header */
+	ssoUrl?: string;
+	/** Kind of the token that failed, fine-grained tokens are edited on a different settings page */
+	tokenKind?: TokenKind;
+}
+
+/**
+ * Provides detailed error messages based on authentication failure reasons
+ */
+export function getDetailedErrorMessage(
+	errorCode: AuthErrorCode | undefined,
+	error: string | undefined,
+	org: string,
+	missingPermissions: string[] = []
+): string {
+	const baseError = error || 'Authentication failed';
+
+	switch (errorCode) {
+		case 'INVALID_TOKEN':
+			return `Invalid Personal Access Token. Please verify your PAT is correct, not expired and has read:org scope.\n\nDetails: ${baseError}`;
+		case 'MISSING_SCOPE':
+			if (missingPermissions.length > 0) {
+				return `Access denied. Your token is missing these permissions for the "${org}" organization:\n${missingPermissions.map(permission => `• ${permission}`).join('\n')}`;
+			}
+			return `Access denied. Your token does not have the required "read:org" scope (fine-grained tokens: "Members" organization permission set to read).\n\nDetails: ${baseError}`;
+		case 'ORG_NOT_FOUND':
+			return `Organization "${org}" was not found. Check the avro.github.organization setting.\n\nDetails: ${baseError}`;
+		case 'NOT_A_MEMBER':
+			return `You are not a member of the "${org}" organization.\n\nDetails: ${baseError}`;
+		case 'INSUFFICIENT_ROLE':
+			return `Your role in the "${org}" organization does not grant access to Avro.\n\nDetails: ${baseError}`;
+		case 'PENDING_INVITATION':
+			return `Your invitation to the "${org}" organization has not been accepted yet.\n\nDetails: ${baseError}`;
+		case 'SSO_REQUIRED':
+			return `The "${org}" organization requires SAML single sign-on. Authorize your token for SSO and try again.\n\nDetails: ${baseError}`;
+		case 'RATE_LIMITED':
+			return `GitHub API rate limit reached. Please wait a moment and try again.\n\nDetails: ${baseError}`;
+		case 'NETWORK':
+			return `Network error: Unable to connect to GitHub. Please check your internet connection and proxy settings.\n\nDetails: ${baseError}`;
+		case 'SERVER_ERROR':
+			return `GitHub is currently unavailable. Please try again later.\n\nDetails: ${baseError}`;
+		default:
+			return `${baseError}\n\nTroubleshooting:\n• Verify your PAT has "read:org" scope\n• Check the organization name is correct: "${org}"\n• Ensure your PAT is still valid (not expired)`;
+	}
+}
+
+/**
+ * Remediation actions offered in the error notification for each kind of failure
+ */
+function getRemediationActions(errorCode: AuthErrorCode | undefined, org: string, hints: AuthErrorHints): RemediationAction[] {
+	const connection = getGitHubConnection();
+	const open = (path: string) => () => vscode.env.openExternal(vscode.Uri.parse(webUrl(connection, path)));
+	const retry: RemediationAction = {
+		label: 'Retry',
+		run: () => vscode.commands.executeCommand('avro.authenticate')
+	};
+	const openSettings = (setting: string) => () => vscode.commands.executeCommand('workbench.action.openSettings', setting);
+
+	switch (errorCode) {
+		case 'INVALID_TOKEN':
+			return [{ label: 'Create New Token', run: open('/settings/tokens/new?scopes=read:org&description=Avro') }, retry];
+		case 'MISSING_SCOPE':
+			return hints.tokenKind === 'fine-grained'
+				? [{ label: 'Edit Token Permissions', run: open('/settings/personal-access-tokens') }, retry]
+				: [{ label: 'Edit Token Scopes', run: open('/settings/tokens') }, retry];
+		case 'ORG_NOT_FOUND':
+			return [{ label: 'Open Settings', run: openSettings('avro.github.organization') }, retry];
+		case 'NOT_A_MEMBER':
+			return [
+				{ label: 'View Organization', run: open(`/${encodeURIComponent(org)}`) },
+				{ label: 'Use Another Account', run: () => vscode.commands.executeCommand('avro.authenticate') }
+			];
+		case 'INSUFFICIENT_ROLE':
+			return [{ label: 'View Organization', run: open(`/orgs/${encodeURIComponent(org)}/people`) }, retry];
+		case 'PENDING_INVITATION':
+			return [{ label: 'View Invitation', run: open(`/orgs/${encodeURIComponent(org)}/invitation`) }, retry];
+		case 'SSO_REQUIRED':
+			return [{
+				label: 'Authorize token for SSO',
+				run: () => vscode.env.openExternal(vscode.Uri.parse(
+					hints.ssoUrl ?? webUrl(connection, `/orgs/${encodeURIComponent(org)}/sso`)
+				))
+			}, retry];
+		case 'RATE_LIMITED':
+		case 'SERVER_ERROR':
+			return [retry];
+		case 'NETWORK':
+			return [retry, { label: 'Proxy Settings', run: openSettings('avro.github.proxy') }];
+		default:
+			return [retry, { label: 'Troubleshoot', run: open('/settings/tokens') }];
+	}
+}
+
+/**
+ * Shows an authentication error notification with remediation actions for its kind
+ */
+export async function showAuthenticationError(
+	error: string,
+	errorCode: AuthErrorCode | undefined,
+	org: string,
+	hints: AuthErrorHints = {}
+): Promise<void> {
+	const actions = getRemediationActions(errorCode, org, hints);
+	const choice = await vscode.window.showErrorMessage(
+		`✗ Avro: ${error}`,
+		...actions.map(action => action.label),
+		'Dismiss'
+	);
+	await actions.find(action => action.label === choice)?.run();
+}
@@ -1,6 +1,18 @@
 import * as vscode from 'vscode';
-import { authenticateUser } from '../github/auth';
-import { SecureStorage } from '../utils/secureStorage';
+import { authenticateUser, AuthErrorCode, TokenKind } from '../github/auth';
+import { requestDeviceCode, pollForAccessToken } from '../github/deviceFlow';
+import { getVSCodeGitHubSession } from '../github/vscodeSession';
+import { apiHost } from '../github/http';
+import { SecureStorage, AuthSource } from '../utils/secureStorage';
+import { getDetailedErrorMessage } from './authErrors';
+import { authorizeSsoAndRetry } from './ssoAuthorization';
+import {
+	getOAuthClientId,
+	getGitHubConnection,
+	getAccessConfig,
+	findOrganizationAccess,
+	OrganizationAccess
+} from '../utils/config';
 
 export interface AuthenticationDialogResult {
 	success: boolean;
@@ -9,52 +21,83 @@ export interface AuthenticationDialogResult {
 	username?: string;
 	role?: 'admin' | 'member';
 	error?: string;
+	errorCode?: AuthErrorCode;
+	/** SAML SSO authorization URL, set with SSO_REQUIRED */
+	ssoUrl?: string;
+	tokenKind?: TokenKind;
+	/** How the token was obtained, set with PENDING_INVITATION so the sign-in can resume after accepting */
+	source?: AuthSource;
 }
 
 /**
- * Provides detailed error messages based on authentication failure reasons
+ * Asks the user how they want to sign in
  */
-function getDetailedErrorMessage(error: string | undefined, org: string, pat: string): string {
-	const baseError = error || 'Authentication failed';
-	
-	if (baseError.includes('401') || baseError.includes('Unauthorized')) {
-		return `Invalid Personal Access Token. Please verify your PAT is correct and has read:org scope.\n\nDetails: ${baseError}`;
-	}
-	
-	if (baseError.includes('404') || baseError.includes('Not Found')) {
-		return `Organization "${org}" not found or you don't have access to it.\n\nDetails: ${baseError}`;
-	}
-	
-	if (baseError.includes('403') || baseError.includes('Forbidden')) {
-		return `Access denied. Your PAT may not have the required "read:org" scope.\n\nDetails: ${baseError}`;
-	}
-	
-	if (baseError.includes('timeout') || baseError.includes('ECONNREFUSED')) {
-		return `Network error: Unable to connect to GitHub. Please check your internet connection.\n\nDetails: ${baseError}`;
-	}
-	
-	if (baseError.includes('membership') || baseError.includes('member')) {
-		return `You are not a member of the "${org}" organization.\n\nDetails: ${baseError}`;
-	}
-	
-	return `${baseError}\n\nTroubleshooting:\n• Verify your PAT has "read:org" scope\n• Check the organization name is correct: "${org}"\n• Ensure your PAT is still valid (not expired)`;
+async function pickSignInMethod(): Promise<AuthSource | undefined> {
+	const result = await vscode.window.showQuickPick(
+		[
+			{
+				label: '$(vscode) Use GitHub account from VS Code',
+				description: 'Reuse the account VS Code is signed in with',
+				method: 'vscode' as AuthSource
+			},
+			{
+				label: '$(github) Sign in with browser',
+				description: 'Authorize with a one-time device code',
+				method: 'device' as AuthSource
+			},
+			{
+				label: '$(key) Enter Personal Access Token',
+				description: 'Paste a classic or fine-grained PAT',
+				method: 'pat' as AuthSource
+			}
+		],
+		{
+			placeHolder: 'Choose how to sign in to GitHub',
+			ignoreFocusOut: true
+		}
+	);
+
+	return result?.method;
 }
 
 /**
- * Shows authentication dialog for GitHub PAT input
+ * Asks which configured organization to sign in to (skipped when only one is configured)
  */
-export async function showAuthenticationDialog(
-	storage: SecureStorage,
-	defaultOrg?: string
-): Promise<AuthenticationDialogResult> {
-	// Organization is hardcoded to avrocc
-	const org = 'avrocc';
+async function pickOrganization(defaultOrg?: string): Promise<OrganizationAccess | undefined> {
+	const { organizations } = getAccessConfig();
+	if (organizations.length === 1) {
+		return organizations[0];
+	}
+
+	const preferred = findOrganizationAccess({ organizations, errors: [] }, defaultOrg);
+	const ordered = preferred
+		? [preferred, ...organizations.filter(org => org !== preferred)]
+		: organizations;
+
+	const result = await vscode.window.showQuickPick(
+		ordered.map(org => ({
+			label: `$(organization) ${org.name}`,
+			description: `Requires role: ${org.requiredRoles.join(' or ')}`,
+			org
+		})),
+		{
+			placeHolder: 'Choose the GitHub organization to sign in to',
+			ignoreFocusOut: true
+		}
+	);
 
-	// Ask for PAT
-	const pat = await vscode.window.showInputBox({
+	return result?.org;
+}
+
+/**
+ * Prompts for a GitHub PAT
+ */
+async function promptForPAT(): Promise<string | undefined> {
+	return vscode.window.showInputBox({
 		prompt: 'Enter GitHub Personal Access Token (PAT)',
 		password: true,
 		placeHolder: 'ghp_...',
+		ignoreFocusOut: true,
 		validateInput: (value) => {
 			if (!value.trim()) {
 				return 'PAT is required';
@@ -65,33 +108,109 @@ export async function showAuthenticationDialog(
 			return null;
 		}
 	});
+}
 
-	if (!pat) {
-		return { success: false, error: 'Cancelled' };
+/**
+ * Runs the OAuth device code flow: shows the user code, opens the browser
+ * and polls GitHub until the user has authorized the extension
+ */
+async function acquireTokenWithDeviceFlow(): Promise<{ token?: string; error?: string }> {
+	const clientId = getOAuthClientId();
+	const connection = getGitHubConnection();
+	if (!clientId) {
+		return { error: 'Browser sign-in is not configured. Set "avro.github.oauthClientId" or sign in with a PAT.' };
+	}
+
+	const codeResult = await requestDeviceCode(clientId, ['read:org'], connection);
+	if (!codeResult.success || !codeResult.deviceCode) {
+		return { error: codeResult.error || 'Failed to start browser sign-in' };
+	}
+
+	const deviceCode = codeResult.deviceCode;
+	const choice = await vscode.window.showInformationMessage(
+		`Your GitHub device code is ${deviceCode.user_code}`,
+		{ modal: true, detail: `Enter this code at ${deviceCode.verification_uri} to authorize Avro.` },
+		'Copy & Open GitHub'
+	);
+
+	if (choice !== 'Copy & Open GitHub') {
+		return { error: 'Cancelled' };
 	}
 
-	// Validate and authenticate
-	vscode.window.withProgress(
+	await vscode.env.clipboard.writeText(deviceCode.user_code);
+	await vscode.env.openExternal(vscode.Uri.parse(deviceCode.verification_uri));
+
+	const tokenResult = await vscode.window.withProgress(
+		{
+			location: vscode.ProgressLocation.Notification,
+			title: `Waiting for GitHub authorization (code ${deviceCode.user_code})...`,
+			cancellable: true
+		},
+		(_progress, cancellation) => pollForAccessToken(clientId, deviceCode, connection, cancellation)
+	);
+
+	if (!tokenResult.success || !tokenResult.accessToken) {
+		return { error: tokenResult.error || 'Browser sign-in failed' };
+	}
+
+	return { token: tokenResult.accessToken };
+}
+
+/**
+ * Gets a token from the built-in VS Code GitHub authentication provider,
+ * asking the user to sign in or grant read:org if needed
+ */
+async function acquireTokenFromVSCode(): Promise<{ token?: string; error?: string }> {
+	try {
+		const session = await getVSCodeGitHubSession(true, getGitHubConnection());
+		if (!session) {
+			return { error: 'Cancelled' };
+		}
+		return { token: session.accessToken };
+	} catch (err) {
+		// getSession rejects when the user dismisses the sign-in prompt
+		return { error: err instanceof Error && !/cancel|consent/i.test(err.message) ? err.message : 'Cancelled' };
+	}
+}
+
+/**
+ * Verifies the token against the organization and stores credentials and role
+ */
+export async function completeAuthentication(
+	storage: SecureStorage,
+	token: string,
+	orgAccess: OrganizationAccess,
+	source: AuthSource
+): Promise<AuthenticationDialogResult> {
+	const org = orgAccess.name;
+	const connection = getGitHubConnection();
+	const verify = () => authenticateUser(token, org, orgAccess.requiredRoles, connection);
+	let result = await vscode.window.withProgress(
 		{
 			location: vscode.ProgressLocation.Notification,
 			title: 'Authenticating with GitHub...',
 			cancellable: false
 		},
-		async () => {
-			// This is handled separately to allow async operations
-			return new Promise<void>((resolve) => {
-				resolve();
-			});
-		}
+		verify
 	);
 
-	const result = await authenticateUser(pat, org, ['admin', 'member']);
+	if (result.errorCode === 'SSO_REQUIRED') {
+		result = await authorizeSsoAndRetry(org, result.ssoUrl, verify) ?? result;
+	}
 
 	if (!result.success) {
-		const errorDetails = getDetailedErrorMessage(result.error, org, pat);
+		const errorDetails = getDetailedErrorMessage(result.errorCode, result.error, org, result.missingPermissions);
+		const pending = result.errorCode === 'PENDING_INVITATION';
 		return {
 			success: false,
-			error: errorDetails
+			// The token is handed back so the invitation can be accepted without asking for it again
+			pat: pending ? token : undefined,
+			source: pending ? source : undefined,
+			org,
+			error: errorDetails,
+			errorCode: result.errorCode,
+			ssoUrl: result.ssoUrl,
+			tokenKind: result.tokenInfo?.kind
 		};
 	}
 
@@ -102,23 +221,54 @@ export async function showAuthenticationDialog(
 		};
 	}
 
-	// Step 2: Store credentials and role
-	await storage.storePAT(pat);
-	await storage.storeOrganization(org);
-	await storage.storeUser(result.user.login);
-	if (result.role) {
-		await storage.storeRole(result.role);
-	}
+	// Store credentials and role as the active profile
+	await storage.saveProfile({ user: result.user.login, org, host: apiHost(connection), role: result.role, source }, token);
 
 	return {
 		success: true,
-		pat,
+		pat: token,
 		org,
 		username: result.user.login,
 		role: result.role
 	};
 }
 
+/**
+ * Shows authentication dialog offering the VS Code GitHub account, browser (device code)
+ * sign-in or GitHub PAT input
+ */
+export async function showAuthenticationDialog(
+	storage: SecureStorage,
+	defaultOrg?: string
+): Promise<AuthenticationDialogResult> {
+	const orgAccess = await pickOrganization(defaultOrg);
+	if (!orgAccess) {
+		return { success: false, error: 'Cancelled' };
+	}
+
+	const method = await pickSignInMethod();
+	if (!method) {
+		return { success: false, error: 'Cancelled' };
+	}
+
+	if (method === 'vscode' || method === 'device') {
+		const tokenResult = method === 'vscode'
+			? await acquireTokenFromVSCode()
+			: await acquireTokenWithDeviceFlow();
+		if (!tokenResult.token) {
+			return { success: false, error: tokenResult.error || 'Cancelled' };
+		}
+		return completeAuthentication(storage, tokenResult.token, orgAccess, method);
+	}
+
+	const pat = await promptForPAT();
+	if (!pat) {
+		return { success: false, error: 'Cancelled' };
+	}
+
+	return completeAuthentication(storage, pat, orgAccess, 'pat');
+}
+
 /**
  * Shows logout confirmation dialog
  */
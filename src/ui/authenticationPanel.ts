@@ -1,9 +1,20 @@
+import * as crypto from 'crypto';
 import * as vscode from 'vscode';
-import { SecureStorage } from '../utils/secureStorage';
-import { authenticateUser } from '../github/auth';
+import { SecureStorage, AuthSource } from '../utils/secureStorage';
+import { authenticateUser, AuthErrorCode } from '../github/auth';
+import { requestDeviceCode, pollForAccessToken } from '../github/deviceFlow';
+import { apiHost, webUrl } from '../github/http';
+import {
+	getOAuthClientId,
+	getGitHubConnection,
+	getAccessConfig,
+	findOrganizationAccess,
+	OrganizationAccess
+} from '../utils/config';
+import { authorizeSsoAndRetry } from './ssoAuthorization';
 
 export interface AuthPanelMessage {
-	type: 'authenticate' | 'cancel';
+	type: 'authenticate' | 'deviceFlow' | 'cancelDeviceFlow' | 'cancel';
 	org?: string;
 	pat?: string;
 }
@@ -14,6 +25,10 @@ export interface AuthPanelResponse {
 	role?: 'admin' | 'member';
 	org?: string;
 	error?: string;
+	errorCode?: AuthErrorCode;
+	/** The token and how it was obtained, set with PENDING_INVITATION so the sign-in can resume after accepting */
+	pat?: string;
+	source?: AuthSource;
 }
 
 /**
@@ -26,6 +41,7 @@ export class AuthenticationPanel {
 	private _disposables: vscode.Disposable[] = [];
 	private storage: SecureStorage;
 	private onAuthenticationCallback?: (result: AuthPanelResponse) => void;
+	private deviceFlowCancellation?: vscode.CancellationTokenSource;
 
 	public static createOrShow(
 		extensionUri: vscode.Uri,
@@ -80,23 +96,13 @@ export class AuthenticationPanel {
 		this.storage = storage;
 		this.onAuthenticationCallback = onAuthentication;
 
-		// Set the webview's initial html content
+		// Set the webview's html content once, retainContextWhenHidden keeps a shown device code and
+		// the button states while the panel is hidden
 		this._update();
 
 		// Listen for when the panel is disposed
 		this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
 
-		// Update the content based on view changes
-		this._panel.onDidChangeViewState(
-			(_e) => {
-				if (this._panel.visible) {
-					this._update();
-				}
-			},
-			null,
-			this._disposables
-		);
-
 		// Handle messages from the webview
 		this._panel.webview.onDidReceiveMessage(
 			(message: AuthPanelMessage) => this._handleMessage(message),
@@ -107,9 +113,13 @@ export class AuthenticationPanel {
 
 	private async _handleMessage(message: AuthPanelMessage) {
 		if (message.type === 'authenticate') {
-			const org = message.org?.trim() || 'avrocc';
+			const orgAccess = this._resolveOrganization(message.org);
 			const pat = message.pat?.trim();
 
+			if (!orgAccess) {
+				return;
+			}
+
 			if (!pat) {
 				this._panel.webview.postMessage({
 					type: 'error',
@@ -118,52 +128,158 @@ export class AuthenticationPanel {
 				return;
 			}
 
-			// Show progress
-			this._panel.webview.postMessage({ type: 'authenticating' });
-
-			try {
-				// Authenticate
-				const authResult = await authenticateUser(pat, org, ['admin', 'member']);
-
-				if (authResult.success && authResult.user && authResult.role) {
-					// Store credentials
-					await this.storage.storePAT(pat);
-					await this.storage.storeOrganization(org);
-					await this.storage.storeUser(authResult.user.login);
-					await this.storage.storeRole(authResult.role);
-
-					const response: AuthPanelResponse = {
-						success: true,
-						user: authResult.user.login,
-						role: authResult.role,
-						org: org
-					};
-
-					this._panel.webview.postMessage({
-						type: 'success',
-						data: response
-					});
-
-					if (this.onAuthenticationCallback) {
-						this.onAuthenticationCallback(response);
-					}
-
-					// Close panel after successful auth
-					setTimeout(() => this.dispose(), 1500);
-				} else {
-					this._panel.webview.postMessage({
-						type: 'error',
-						error: authResult.error || 'Authentication failed'
-					});
+			await this._authenticate(pat, orgAccess, 'pat');
+		} else if (message.type === 'deviceFlow') {
+			const orgAccess = this._resolveOrganization(message.org);
+			if (orgAccess) {
+				await this._startDeviceFlow(orgAccess);
+			}
+		} else if (message.type === 'cancelDeviceFlow') {
+			this.deviceFlowCancellation?.cancel();
+		} else if (message.type === 'cancel') {
+			this.dispose();
+		}
+	}
+
+	/**
+	 * Looks up the organization entered in the panel, reporting unconfigured organizations
+	 */
+	private _resolveOrganization(org: string | undefined): OrganizationAccess | undefined {
+		const access = getAccessConfig();
+		const requested = org?.trim() || access.organizations[0].name;
+		const orgAccess = findOrganizationAccess(access, requested);
+
+		if (!orgAccess) {
+			this._panel.webview.postMessage({
+				type: 'error',
+				error: `Organization "${requested}" is not configured. Allowed: ${access.organizations.map(entry => entry.name).join(', ')}`
+			});
+		}
+
+		return orgAccess;
+	}
+
+	/**
+	 * Runs the OAuth device code flow, showing the user code in the panel
+	 */
+	private async _startDeviceFlow(orgAccess: OrganizationAccess) {
+		const clientId = getOAuthClientId();
+		const connection = getGitHubConnection();
+		if (!clientId) {
+			this._panel.webview.postMessage({
+				type: 'error',
+				error: 'Browser sign-in is not configured. Set "avro.github.oauthClientId" or use a Personal Access Token.'
+			});
+			return;
+		}
+
+		this.deviceFlowCancellation?.cancel();
+		this.deviceFlowCancellation?.dispose();
+		const cancellation = new vscode.CancellationTokenSource();
+		this.deviceFlowCancellation = cancellation;
+
+		this._panel.webview.postMessage({ type: 'authenticating' });
+
+		const codeResult = await requestDeviceCode(clientId, ['read:org'], connection);
+		if (!codeResult.success || !codeResult.deviceCode) {
+			this._panel.webview.postMessage({
+				type: 'error',
+				error: codeResult.error || 'Failed to start browser sign-in'
+			});
+			return;
+		}
+
+		const deviceCode = codeResult.deviceCode;
+		this._panel.webview.postMessage({
+			type: 'deviceCode',
+			userCode: deviceCode.user_code,
+			verificationUri: deviceCode.verification_uri
+		});
+		vscode.env.openExternal(vscode.Uri.parse(deviceCode.verification_uri));
+
+		const tokenResult = await pollForAccessToken(clientId, deviceCode, connection, cancellation.token);
+		if (cancellation.token.isCancellationRequested) {
+			return;
+		}
+
+		if (!tokenResult.success || !tokenResult.accessToken) {
+			this._panel.webview.postMessage({
+				type: 'error',
+				error: tokenResult.error || 'Browser sign-in failed'
+			});
+			return;
+		}
+
+		await this._authenticate(tokenResult.accessToken, orgAccess, 'device');
+	}
+
+	/**
+	 * Verifies the token against the organization and stores credentials on success
+	 */
+	private async _authenticate(pat: string, orgAccess: OrganizationAccess, source: AuthSource) {
+		const org = orgAccess.name;
+		// Show progress
+		this._panel.webview.postMessage({ type: 'authenticating' });
+
+		try {
+			// Authenticate
+			const connection = getGitHubConnection();
+			const verify = () => authenticateUser(pat, org, orgAccess.requiredRoles, connection);
+			let authResult = await verify();
+			if (authResult.errorCode === 'SSO_REQUIRED') {
+				authResult = await authorizeSsoAndRetry(org, authResult.ssoUrl, verify) ?? authResult;
+			}
+
+			if (authResult.success && authResult.user && authResult.role) {
+				// Store credentials as the active profile
+				await this.storage.saveProfile(
+					{ user: authResult.user.login, org, host: apiHost(connection), role: authResult.role, source },
+					pat
+				);
+
+				const response: AuthPanelResponse = {
+					success: true,
+					user: authResult.user.login,
+					role: authResult.role,
+					org: org
+				};
+
+				this._panel.webview.postMessage({
+					type: 'success',
+					data: response
+				});
+
+				if (this.onAuthenticationCallback) {
+					this.onAuthenticationCallback(response);
 				}
-			} catch (error) {
+
+				// Close panel after successful auth
+				setTimeout(() => this.dispose(), 1500);
+			} else if (authResult.errorCode === 'PENDING_INVITATION') {
+				this._panel.webview.postMessage({
+					type: 'error',
+					error: `You have a pending invitation to ${org}. Accept it to finish signing in.`
+				});
+				// The caller offers to accept the invitation and resumes the sign-in with the same token
+				this.onAuthenticationCallback?.({
+					success: false,
+					org,
+					error: authResult.error,
+					errorCode: authResult.errorCode,
+					pat,
+					source
+				});
+			} else {
 				this._panel.webview.postMessage({
 					type: 'error',
-					error: error instanceof Error ? error.message : 'Unknown error'
+					error: authResult.error || 'Authentication failed'
 				});
 			}
-		} else if (message.type === 'cancel') {
-			this.dispose();
+		} catch (error) {
+			this._panel.webview.postMessage({
+				type: 'error',
+				error: error instanceof Error ? error.message : 'Unknown error'
+			});
 		}
 	}
 
@@ -172,10 +288,14 @@ export class AuthenticationPanel {
 	}
 
 	private _getHtmlForWebview(webview: vscode.Webview): string {
+		const tokenSettingsHost = new URL(webUrl(getGitHubConnection(), '/settings/tokens')).host + '/settings/tokens';
+		const defaultOrg = getAccessConfig().organizations[0].name;
+		const nonce = crypto.randomBytes(16).toString('base64');
 		return `<!DOCTYPE html>
 <html lang="en">
 <head>
 	<meta charset="UTF-8">
+	<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
 	<meta name="viewport" content="width=device-width, initial-scale=1.0">
 	<title>GitHub Authentication</title>
 	<style>
@@ -367,6 +487,45 @@ export class AuthenticationPanel {
 			to { transform: rotate(360deg); }
 		}
 
+		.divider {
+			display: flex;
+			align-items: center;
+			gap: 12px;
+			margin: 24px 0;
+			font-size: 12px;
+			color: var(--vscode-descriptionForeground);
+		}
+
+		.divider::before,
+		.divider::after {
+			content: '';
+			flex: 1;
+			border-top: 1px solid var(--vscode-input-border);
+		}
+
+		.device-code {
+			display: none;
+			text-align: center;
+			margin-bottom: 20px;
+		}
+
+		.device-code.show {
+			display: block;
+		}
+
+		.device-code .code {
+			font-family: var(--vscode-editor-font-family, monospace);
+			font-size: 28px;
+			font-weight: 600;
+			letter-spacing: 4px;
+			margin: 12px 0;
+			user-select: all;
+		}
+
+		.device-code a {
+			color: var(--vscode-textLink-foreground);
+		}
+
 		.info-box {
 			background-color: rgba(54, 109, 217, 0.08);
 			border-left: 4px solid #238636;
@@ -394,8 +553,18 @@ export class AuthenticationPanel {
 
 			<div id="status" class="status"></div>
 
+			<div id="deviceCode" class="device-code">
+				<div class="help-text">Enter this code on GitHub to authorize Avro</div>
+				<div class="code" id="userCode"></div>
+				<div class="help-text"><a id="verificationUri" href="#"></a></div>
+				<div class="button-group">
+					<button type="button" class="btn-secondary" id="cancelDeviceBtn">Cancel browser sign-in</button>
+				</div>
+			</div>
+
 			<div class="info-box">
-				<strong>Need a token?</strong> Create one at <strong>github.com/settings/tokens</strong> with <strong>read:org</strong> scope
+				<strong>Need a token?</strong> Create one at <strong>${tokenSettingsHost}</strong> with <strong>read:org</strong> scope,
+				or a fine-grained token for the organization with <strong>Members: read</strong> permission
 			</div>
 
 			<form id="authForm">
@@ -405,8 +574,8 @@ export class AuthenticationPanel {
 						type="text"
 						id="org"
 						name="org"
-						placeholder="e.g., avrocc"
-						value="avrocc"
+						placeholder="e.g., ${defaultOrg}"
+						value="${defaultOrg}"
 						required
 					/>
 					<div class="help-text">The GitHub organization to authenticate with</div>
@@ -429,15 +598,24 @@ export class AuthenticationPanel {
 					<button type="button" class="btn-secondary" id="cancelBtn">Cancel</button>
 				</div>
 			</form>
+
+			<div class="divider">or</div>
+
+			<div class="button-group">
+				<button type="button" class="btn-secondary" id="deviceBtn">Sign in with browser</button>
+			</div>
 		</div>
 	</div>
 
-	<script>
+	<script nonce="${nonce}">
 		const vscode = acquireVsCodeApi();
 		const form = document.getElementById('authForm');
 		const status = document.getElementById('status');
 		const submitBtn = document.getElementById('submitBtn');
 		const cancelBtn = document.getElementById('cancelBtn');
+		const deviceBtn = document.getElementById('deviceBtn');
+		const cancelDeviceBtn = document.getElementById('cancelDeviceBtn');
+		const deviceCode = document.getElementById('deviceCode');
 
 		form.addEventListener('submit', async (e) => {
 			e.preventDefault();
@@ -462,23 +640,60 @@ export class AuthenticationPanel {
 			vscode.postMessage({ type: 'cancel' });
 		});
 
+		deviceBtn.addEventListener('click', () => {
+			const org = document.getElementById('org').value.trim();
+			if (!org) {
+				showStatus('Please enter an organization name', 'error');
+				return;
+			}
+
+			deviceBtn.disabled = true;
+			vscode.postMessage({ type: 'deviceFlow', org });
+		});
+
+		cancelDeviceBtn.addEventListener('click', () => {
+			vscode.postMessage({ type: 'cancelDeviceFlow' });
+			deviceCode.className = 'device-code';
+			status.className = 'status';
+			submitBtn.disabled = false;
+			deviceBtn.disabled = false;
+		});
+
 		window.addEventListener('message', (event) => {
 			const message = event.data;
 
 			if (message.type === 'authenticating') {
-				showStatus('<span class="spinner"></span>Authenticating...', 'info');
+				showStatus('Authenticating...', 'info', true);
 				submitBtn.disabled = true;
+				deviceBtn.disabled = true;
+			} else if (message.type === 'deviceCode') {
+				document.getElementById('userCode').textContent = message.userCode;
+				const link = document.getElementById('verificationUri');
+				link.textContent = message.verificationUri;
+				link.href = message.verificationUri;
+				deviceCode.className = 'device-code show';
+				showStatus('Waiting for authorization in the browser...', 'info', true);
 			} else if (message.type === 'success') {
+				deviceCode.className = 'device-code';
 				showStatus('✓ Authentication successful!', 'success');
 				submitBtn.disabled = true;
+				deviceBtn.disabled = true;
 			} else if (message.type === 'error') {
+				deviceCode.className = 'device-code';
 				showStatus(message.error || 'Authentication failed', 'error');
 				submitBtn.disabled = false;
+				deviceBtn.disabled = false;
 			}
 		});
 
-		function showStatus(message, type) {
-			status.innerHTML = message;
+		// Messages may contain text from GitHub or the settings, they are never parsed as HTML
+		function showStatus(message, type, busy = false) {
+			status.textContent = message;
+			if (busy) {
+				const spinner = document.createElement('span');
+				spinner.className = 'spinner';
+				status.prepend(spinner);
+			}
 			status.className = 'status show ' + type;
 		}
 
@@ -494,6 +709,10 @@ export class AuthenticationPanel {
 	public dispose() {
 		AuthenticationPanel.currentPanel = undefined;
 
+		this.deviceFlowCancellation?.cancel();
+		this.deviceFlowCancellation?.dispose();
+		this.deviceFlowCancellation = undefined;
+
 		// Clean up our resources
 		this._panel.dispose();
 
@@ -0,0 +1,32 @@
+import * as vscode from 'vscode';
+import { Item } from '../itemsProvider';
+
+/** Longer outlines are cut off, the modal dialog does not scroll */
+const MAX_LISTED_ITEMS = 20;
+
+/**
+ * Asks in a modal dialog whether to delete the items, listing them with everything inside them
+ * @param items - Selected items, without items inside other selected items
+ */
+export async function confirmDeleteItems(items: Item[]): Promise<boolean> {
+	const outline = (item: Item, depth: number): string[] => [
+		`${'    '.repeat(depth)}${item.itemType === 'folder' ? '▸ ' : ''}${item.label}`,
+		...(item.children ?? []).flatMap(child => outline(child, depth + 1))
+	];
+	const lines = items.flatMap(item => outline(item, 0));
+	const descendants = lines.length - items.length;
+
+	const message = items.length === 1 ? `Delete "${items[0].label}"?` : `Delete ${items.length} items?`;
+	const detail = [
+		...lines.slice(0, MAX_LISTED_ITEMS),
+		...(lines.length > MAX_LISTED_ITEMS ? [`...and ${lines.length - MAX_LISTED_ITEMS} more`] : []),
+		'',
+		...(descendants > 0
+			? [`${descendants} ${descendants === 1 ? 'item' : 'items'} inside ${items.length === 1 ? 'it' : 'them'} ${descendants === 1 ? 'is' : 'are'} deleted too.`]
+			: []),
+		'You can undo this for a short time afterwards.'
+	].join('\n');
+
+	const answer = await vscode.window.showWarningMessage(message, { modal: true, detail }, 'Delete');
+	return answer === 'Delete';
+}
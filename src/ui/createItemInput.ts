@@ -0,0 +1,147 @@
+import * as vscode from 'vscode';
+import { CatalogItemType } from '../items/catalog';
+
+export interface NewItemInput {
+	label: string;
+	type: CatalogItemType;
+	description: string;
+}
+
+/** Returned by a step when the user pressed the back button */
+const BACK = Symbol('back');
+
+interface StepOptions {
+	title: string;
+	step: number;
+	totalSteps: number;
+}
+
+/**
+ * One input box step, resolves with the accepted value, BACK or undefined when dismissed
+ */
+function askText(
+	options: StepOptions & { prompt: string; value: string; validate?: (value: string) => string | undefined }
+): Promise<string | typeof BACK | undefined> {
+	const input = vscode.window.createInputBox();
+	input.title = options.title;
+	input.step = options.step;
+	input.totalSteps = options.totalSteps;
+	input.prompt = options.prompt;
+	input.value = options.value;
+	input.ignoreFocusOut = true;
+	input.buttons = options.step > 1 ? [vscode.QuickInputButtons.Back] : [];
+
+	return new Promise(resolve => {
+		const disposables: vscode.Disposable[] = [];
+		const done = (value: string | typeof BACK | undefined) => {
+			resolve(value);
+			disposables.forEach(disposable => disposable.dispose());
+			input.dispose();
+		};
+		disposables.push(
+			input.onDidChangeValue(value => {
+				input.validationMessage = options.validate?.(value);
+			}),
+			input.onDidAccept(() => {
+				const error = options.validate?.(input.value);
+				input.validationMessage = error;
+				if (!error) {
+					done(input.value);
+				}
+			}),
+			input.onDidTriggerButton(() => done(BACK)),
+			input.onDidHide(() => done(undefined))
+		);
+		input.show();
+	});
+}
+
+/**
+ * One quick pick step for the item type
+ */
+function pickType(options: StepOptions & { value: CatalogItemType }): Promise<CatalogItemType | typeof BACK | undefined> {
+	type TypeItem = vscode.QuickPickItem & { type: CatalogItemType };
+	const items: TypeItem[] = [
+		{ label: '$(file) File', description: 'A document', type: 'file' },
+		{ label: '$(symbol-event) Action', description: 'Something that can be executed', type: 'action' },
+		{ label: '$(circle-filled) Item', description: 'A plain item', type: 'item' }
+	];
+	const pick = vscode.window.createQuickPick<TypeItem>();
+	pick.title = options.title;
+	pick.step = options.step;
+	pick.totalSteps = options.totalSteps;
+	pick.placeholder = 'Type of the new item';
+	pick.items = items;
+	pick.activeItems = items.filter(item => item.type === options.value);
+	pick.ignoreFocusOut = true;
+	pick.buttons = [vscode.QuickInputButtons.Back];
+
+	return new Promise(resolve => {
+		const disposables: vscode.Disposable[] = [];
+		const done = (value: CatalogItemType | typeof BACK | undefined) => {
+			resolve(value);
+			disposables.forEach(disposable => disposable.dispose());
+			pick.dispose();
+		};
+		disposables.push(
+			pick.onDidAccept(() => done(pick.selectedItems[0]?.type)),
+			pick.onDidTriggerButton(() => done(BACK)),
+			pick.onDidHide(() => done(undefined))
+		);
+		pick.show();
+	});
+}
+
+/**
+ * Multi-step input for a new item (name, type, description) or folder (name, description).
+ * The back button returns to the previous step with its value kept.
+ * @param parentLabel - Folder the item is created in, undefined for the root
+ * @param validateName - Returns why a name cannot be used (illegal characters, duplicates)
+ * @returns The entered values, or undefined when cancelled
+ */
+export async function showCreateItemInput(
+	kind: 'item' | 'folder',
+	parentLabel: string | undefined,
+	validateName: (name: string) => string | undefined
+): Promise<NewItemInput | undefined> {
+	const title = `New ${kind === 'folder' ? 'Folder' : 'Item'}${parentLabel ? ` in ${parentLabel}` : ''}`;
+	const totalSteps = kind === 'folder' ? 2 : 3;
+	const state: NewItemInput = { label: '', type: kind === 'folder' ? 'folder' : 'file', description: '' };
+
+	const steps: ((step: number) => Promise<boolean | typeof BACK>)[] = [
+		async step => {
+			const value = await askText({ title, step, totalSteps, prompt: 'Name', value: state.label, validate: validateName });
+			if (typeof value === 'string') {
+				state.label = value.trim();
+			}
+			return value === BACK ? BACK : value !== undefined;
+		},
+		...(kind === 'folder' ? [] : [async (step: number) => {
+			const value = await pickType({ title, step, totalSteps, value: state.type });
+			if (value && value !== BACK) {
+				state.type = value;
+			}
+			return value === BACK ? BACK : value !== undefined;
+		}]),
+		async step => {
+			const value = await askText({ title, step, totalSteps, prompt: 'Description (optional)', value: state.description });
+			if (typeof value === 'string') {
+				state.description = value.trim();
+			}
+			return value === BACK ? BACK : value !== undefined;
+		}
+	];
+
+	let index = 0;
+	while (index < steps.length) {
+		const result = await steps[index](index + 1);
+		if (result === BACK) {
+			index = Math.max(0, index - 1);
+		} else if (!result) {
+			return undefined;
+		} else {
+			index++;
+		}
+	}
+	return state;
+}
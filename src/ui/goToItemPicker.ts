@@ -0,0 +1,37 @@
+import * as vscode from 'vscode';
+import { Item } from '../itemsProvider';
+
+/**
+ * Fuzzy-searches all items by label, description and folder path
+ * @param entries - Items at any depth, including those in collapsed folders
+ * @returns The picked item, or undefined when cancelled
+ */
+export async function showGoToItemPicker(entries: { item: Item; path: string[] }[]): Promise<Item | undefined> {
+	type EntryItem = vscode.QuickPickItem & { item: Item };
+	const picks: EntryItem[] = entries.map(({ item, path }) => ({
+		label: `${iconFor(item.itemType)} ${item.label}`,
+		description: item.description,
+		detail: path.length > 0 ? path.join(' / ') : 'Root',
+		item
+	}));
+	const picked = await vscode.window.showQuickPick(picks, {
+		title: 'Go to Item',
+		placeHolder: picks.length > 0 ? 'Type to search labels, descriptions and folders' : 'No items to search',
+		matchOnDescription: true,
+		matchOnDetail: true
+	});
+	return picked?.item;
+}
+
+function iconFor(itemType: string): string {
+	switch (itemType) {
+		case 'folder':
+			return '$(folder)';
+		case 'file':
+			return '$(file)';
+		case 'action':
+			return '$(symbol-event)';
+		default:
+			return '$(circle-filled)';
+	}
+}
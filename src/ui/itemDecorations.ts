@@ -0,0 +1,42 @@
+import * as vscode from 'vscode';
+import { ITEM_SCHEME } from '../items/itemFileSystem';
+
+/**
+ * Marks file items with unsaved changes in the Items Explorer, based on the open avro: documents
+ */
+export class DirtyItemDecorations implements vscode.FileDecorationProvider, vscode.Disposable {
+	private readonly _onDidChangeFileDecorations = new vscode.EventEmitter<vscode.Uri[]>();
+	readonly onDidChangeFileDecorations: vscode.Event<vscode.Uri[]> = this._onDidChangeFileDecorations.event;
+
+	private disposables: vscode.Disposable[] = [];
+
+	constructor() {
+		const update = (document: vscode.TextDocument) => {
+			if (document.uri.scheme === ITEM_SCHEME) {
+				this._onDidChangeFileDecorations.fire([document.uri]);
+			}
+		};
+		this.disposables.push(
+			this._onDidChangeFileDecorations,
+			vscode.workspace.onDidChangeTextDocument(e => update(e.document)),
+			vscode.workspace.onDidSaveTextDocument(update),
+			vscode.workspace.onDidCloseTextDocument(update)
+		);
+	}
+
+	provideFileDecoration(uri: vscode.Uri): vscode.FileDecoration | undefined {
+		if (uri.scheme !== ITEM_SCHEME) {
+			return undefined;
+		}
+		const document = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === uri.toString());
+		if (!document?.isDirty) {
+			return undefined;
+		}
+		return new vscode.FileDecoration('●', 'Unsaved changes', new vscode.ThemeColor('gitDecoration.modifiedResourceForeground'));
+	}
+
+	dispose(): void {
+		this.disposables.forEach(disposable => disposable.dispose());
+		this.disposables = [];
+	}
+}
@@ -0,0 +1,44 @@
+import * as vscode from 'vscode';
+import { CATALOG_ITEM_TYPES, CatalogItemType } from '../items/catalog';
+import { ItemFilter } from '../items/itemFilter';
+
+/**
+ * Asks for the text, types and tags to filter the Items Explorer by
+ * @param current - The active filter, prefilled in both steps
+ * @param tags - Tags used by the items, offered next to the types
+ * @returns The new filter (empty to show everything), or undefined when cancelled
+ */
+export async function showItemFilterInput(current: ItemFilter | undefined, tags: string[]): Promise<ItemFilter | undefined> {
+	const text = await vscode.window.showInputBox({
+		title: 'Filter Items (1/2)',
+		prompt: 'Text to find in labels and descriptions, leave empty to match any',
+		value: current?.text ?? '',
+		ignoreFocusOut: true
+	});
+	if (text === undefined) {
+		return undefined;
+	}
+
+	type CriterionItem = vscode.QuickPickItem & { type?: CatalogItemType; tag?: string };
+	const criteria: CriterionItem[] = [
+		{ label: 'Types', kind: vscode.QuickPickItemKind.Separator },
+		...CATALOG_ITEM_TYPES.map(type => ({ label: type, picked: current?.types?.includes(type) ?? false, type })),
+		...(tags.length > 0 ? [{ label: 'Tags', kind: vscode.QuickPickItemKind.Separator }] : []),
+		...tags.map(tag => ({ label: `#${tag}`, picked: current?.tags?.includes(tag) ?? false, tag }))
+	];
+	const picked = await vscode.window.showQuickPick(criteria, {
+		title: 'Filter Items (2/2)',
+		placeHolder: 'Types and tags to show, none selected matches any',
+		canPickMany: true,
+		ignoreFocusOut: true
+	});
+	if (!picked) {
+		return undefined;
+	}
+
+	return {
+		text: text.trim() || undefined,
+		types: picked.flatMap(item => item.type ? [item.type] : []),
+		tags: picked.flatMap(item => item.tag ? [item.tag] : [])
+	};
+}
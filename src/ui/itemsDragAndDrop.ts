@@ -0,0 +1,176 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { Item, ItemsProvider } from '../itemsProvider';
+import { PermissionDecision } from '../auth/permissions';
+import { ITEM_SCHEME } from '../items/itemFileSystem';
+
+/** Mime type VS Code uses for items dragged within the itemsExplorer tree */
+const ITEMS_MIME_TYPE = 'application/vnd.code.tree.itemsexplorer';
+/** Mime type of files dragged from the Explorer or the operating system */
+const URI_LIST_MIME_TYPE = 'text/uri-list';
+/** Larger files are not imported, item contents are kept in the item store */
+const MAX_IMPORT_BYTES = 1024 * 1024;
+
+/**
+ * Where dropped items go: into a folder, in front of another item, or to the end of the root
+ */
+interface DropTarget {
+	parent: Item | undefined;
+	beforeId?: string;
+}
+
+/**
+ * Moves and reorders items by drag and drop within the Items Explorer,
+ * and imports workspace files dropped from the Explorer as file items.
+ */
+export class ItemsDragAndDropController implements vscode.TreeDragAndDropController<Item> {
+	readonly dragMimeTypes = [ITEMS_MIME_TYPE];
+	readonly dropMimeTypes = [ITEMS_MIME_TYPE, URI_LIST_MIME_TYPE];
+
+	/**
+	 * @param checkAccess - Whether the session may run the command on the item (or without an item for the root)
+	 */
+	constructor(
+		private readonly itemsProvider: ItemsProvider,
+		private readonly checkAccess: (commandId: string, item: Item | undefined) => PermissionDecision
+	) {}
+
+	handleDrag(source: readonly Item[], dataTransfer: vscode.DataTransfer): void {
+		// Status, banner and placeholder nodes are not part of the item tree
+		const items = source.filter(item => this.itemsProvider.findItem(item.id) !== undefined);
+		if (items.length > 0) {
+			dataTransfer.set(ITEMS_MIME_TYPE, new vscode.DataTransferItem(items));
+		}
+	}
+
+	async handleDrop(target: Item | undefined, dataTransfer: vscode.DataTransfer, token: vscode.CancellationToken): Promise<void> {
+		const dropTarget = this.resolveTarget(target);
+		if (!dropTarget) {
+			return;
+		}
+		// Tree items with a resourceUri also come with a uri-list, the tree's own mime type wins
+		const dragged = dataTransfer.get(ITEMS_MIME_TYPE);
+		if (dragged) {
+			await this.moveItems(dragged.value as Item[], dropTarget);
+			return;
+		}
+		const uriList = dataTransfer.get(URI_LIST_MIME_TYPE);
+		if (uriList) {
+			await this.importFiles(await uriList.asString(), dropTarget.parent, token);
+		}
+	}
+
+	private resolveTarget(target: Item | undefined): DropTarget | undefined {
+		if (!target) {
+			return { parent: undefined };
+		}
+		if (!this.itemsProvider.findItem(target.id)) {
+			return undefined;
+		}
+		if (target.itemType === 'folder') {
+			return { parent: target };
+		}
+		return { parent: this.itemsProvider.findParent(target.id), beforeId: target.id };
+	}
+
+	/**
+	 * Moves the dragged items, rejecting the whole drop when any of them may not be moved
+	 */
+	private async moveItems(items: Item[], target: DropTarget): Promise<void> {
+		const denied = [...items, ...(target.parent ? [target.parent] : [])]
+			.map(item => this.checkAccess('itemsExplorer.moveItem', item))
+			.find(decision => !decision.allowed);
+		if (denied) {
+			vscode.window.showWarningMessage(`✗ Avro: ${denied.reason}`);
+			return;
+		}
+
+		const result = await this.itemsProvider.moveItems(items.map(item => item.id), target.parent?.id, target.beforeId);
+		if (!result.success) {
+			vscode.window.showErrorMessage(`✗ Avro: ${result.error}`);
+			return;
+		}
+		const what = items.length === 1 ? items[0].label : `${items.length} items`;
+		const action = await vscode.window.showInformationMessage(
+			`✓ Avro: Moved ${what} to ${target.parent?.label ?? 'the root'}.`,
+			'Undo'
+		);
+		if (action === 'Undo') {
+			await vscode.commands.executeCommand('itemsExplorer.undoMove');
+		}
+	}
+
+	/**
+	 * Creates a file item from each dropped text file, skipping folders, binary and oversized files
+	 */
+	private async importFiles(uriList: string, parent: Item | undefined, token: vscode.CancellationToken): Promise<void> {
+		const decision = this.checkAccess('itemsExplorer.createItem', parent);
+		if (!decision.allowed) {
+			vscode.window.showWarningMessage(`✗ Avro: ${decision.reason}`);
+			return;
+		}
+
+		const uris = uriList.split(/\r?\n/)
+			.map(line => line.trim())
+			.filter(line => line && !line.startsWith('#'))
+			.map(line => vscode.Uri.parse(line))
+			.filter(uri => uri.scheme !== ITEM_SCHEME);
+		const imported: string[] = [];
+		const skipped: string[] = [];
+		for (const uri of uris) {
+			if (token.isCancellationRequested) {
+				return;
+			}
+			const name = path.basename(uri.path);
+			const content = await this.readTextFile(uri);
+			if (typeof content !== 'string') {
+				skipped.push(`${name} (${content.skipped})`);
+				continue;
+			}
+			const result = await this.itemsProvider.addItem(
+				`local-${crypto.randomUUID()}`,
+				name,
+				'',
+				'file',
+				parent?.id,
+				content
+			);
+			if (result.success) {
+				imported.push(name);
+			} else {
+				skipped.push(`${name} (${result.error})`);
+			}
+		}
+
+		if (skipped.length > 0) {
+			vscode.window.showWarningMessage(`✗ Avro: Not imported: ${skipped.join(', ')}.`);
+		}
+		if (imported.length > 0) {
+			const what = imported.length === 1 ? imported[0] : `${imported.length} files`;
+			vscode.window.showInformationMessage(`✓ Avro: Imported ${what} to ${parent?.label ?? 'the root'}.`);
+		}
+	}
+
+	/**
+	 * Reads a file as UTF-8 text, or returns why it cannot be imported
+	 */
+	private async readTextFile(uri: vscode.Uri): Promise<string | { skipped: string }> {
+		try {
+			const stat = await vscode.workspace.fs.stat(uri);
+			if (stat.type & vscode.FileType.Directory) {
+				return { skipped: 'folders cannot be imported' };
+			}
+			if (stat.size > MAX_IMPORT_BYTES) {
+				return { skipped: 'larger than 1 MB' };
+			}
+			const data = await vscode.workspace.fs.readFile(uri);
+			if (data.includes(0)) {
+				return { skipped: 'not a text file' };
+			}
+			return Buffer.from(data).toString('utf8');
+		} catch (err) {
+			return { skipped: err instanceof Error ? err.message : 'could not be read' };
+		}
+	}
+}
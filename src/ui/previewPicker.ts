@@ -0,0 +1,57 @@
+import * as vscode from 'vscode';
+import { OrgRole } from '../github/auth';
+import { AccessPreview, resolveTeamPermissions } from '../auth/permissions';
+import { getTeamPermissionConfig } from '../utils/config';
+
+/**
+ * Asks which role and teams to preview the Items Explorer with.
+ * Teams are offered from avro.github.teamPermissions since those are the ones that grant permissions.
+ * @param current - The active preview, preselected in both steps
+ * @returns The preview to start, or undefined when cancelled
+ */
+export async function showPreviewPicker(current?: AccessPreview): Promise<AccessPreview | undefined> {
+	type RoleItem = vscode.QuickPickItem & { role: OrgRole };
+	const roleItems: RoleItem[] = [
+		{ label: '$(person) member', description: 'What organization members see', role: 'member' },
+		{ label: '$(shield) admin', description: 'Only preview other teams', role: 'admin' }
+	];
+	const roleItem = await vscode.window.showQuickPick(roleItems, {
+		title: 'Preview as (1/2)',
+		placeHolder: `Role to preview with${current ? ` (currently ${current.role})` : ''}`,
+		ignoreFocusOut: true
+	});
+	if (!roleItem) {
+		return undefined;
+	}
+
+	const { permissionsByTeam } = getTeamPermissionConfig();
+	type TeamItem = vscode.QuickPickItem & { slug: string };
+	const teamItems: TeamItem[] = [...permissionsByTeam.entries()].map(([slug, permissions]) => ({
+		label: slug,
+		description: permissions.length > 0 ? `Grants ${permissions.join(', ')}` : 'Grants no permissions',
+		picked: current?.teamAccess.teams.includes(slug) ?? false,
+		slug
+	}));
+
+	let slugs: string[] = [];
+	if (teamItems.length > 0) {
+		const picked = await vscode.window.showQuickPick(teamItems, {
+			title: 'Preview as (2/2)',
+			placeHolder: 'Teams to preview with, none selected previews without team permissions',
+			canPickMany: true,
+			ignoreFocusOut: true
+		});
+		if (!picked) {
+			return undefined;
+		}
+		slugs = picked.map(item => item.slug);
+	}
+
+	return {
+		role: roleItem.role,
+		teamAccess: {
+			teams: slugs,
+			permissions: resolveTeamPermissions(slugs, permissionsByTeam)
+		}
+	};
+}
@@ -0,0 +1,47 @@
+import * as vscode from 'vscode';
+import { AuthProfile } from '../utils/secureStorage';
+
+/**
+ * Status bar item showing the active GitHub profile, click to switch profiles
+ */
+export class ProfileStatusBar implements vscode.Disposable {
+	private readonly item: vscode.StatusBarItem;
+
+	constructor() {
+		this.item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
+		this.item.name = 'Avro Account';
+		this.update(undefined, false);
+		this.item.show();
+	}
+
+	/**
+	 * Show the active profile, or a sign-in prompt when there is none
+	 * @param role - Role verified with GitHub in this session, or the cached role while offline
+	 * @param offline - GitHub cannot be reached and the last known state is shown
+	 */
+	update(profile: AuthProfile | undefined, isAuthenticated: boolean, role?: string, offline = false): void {
+		if (!profile) {
+			this.item.text = '$(account) Avro: Sign in';
+			this.item.tooltip = 'Sign in to GitHub';
+			this.item.command = 'avro.authenticate';
+			return;
+		}
+
+		if (offline) {
+			this.item.text = `$(debug-disconnect) ${profile.user} · ${profile.org}`;
+			this.item.tooltip = `Avro: Offline, showing the last known items of ${profile.user} in ${profile.org}${role ? ` (${role}, cached)` : ''}. Click to retry`;
+			this.item.command = 'avro.retryConnection';
+			return;
+		}
+
+		this.item.text = `$(${isAuthenticated ? 'account' : 'warning'}) ${profile.user} · ${profile.org}`;
+		this.item.tooltip = isAuthenticated
+			? `Avro: ${profile.user} in ${profile.org}${role ? ` (${role})` : ''}. Click to switch account or organization`
+			: `Avro: ${profile.user} in ${profile.org} is not verified. Click to switch account or organization`;
+		this.item.command = 'avro.switchProfile';
+	}
+
+	dispose(): void {
+		this.item.dispose();
+	}
+}
@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import { AuthProfile } from '../utils/secureStorage';
 
 export interface SignInButtonResult {
 	clicked: boolean;
@@ -34,36 +35,67 @@ export async function showGitHubSignInButton(): Promise<SignInButtonResult> {
 	return { clicked: false, cancelled: true };
 }
 
+export type UserMenuAction =
+	| { type: 'switch'; profileId: string }
+	| { type: 'add' }
+	| { type: 'logout' }
+	| { type: 'logoutAll' }
+	| { type: 'cancel' };
+
 /**
- * Shows user details with logout option
+ * Shows user details with options to switch profile, add an account or logout
  */
 export async function showUserMenu(
 	username: string,
 	org: string,
-	role: string
-): Promise<'logout' | 'cancel'> {
-	const result = await vscode.window.showQuickPick(
-		[
-			{
-				label: `$(account) ${username}`,
-				description: `Organization: ${org} | Role: ${role}`,
-				detail: 'You are authenticated'
-			},
-			{
-				label: '$(sign-out) Logout',
-				description: 'Sign out from GitHub'
-			}
-		],
+	role: string,
+	profiles: AuthProfile[] = [],
+	activeProfileId?: string
+): Promise<UserMenuAction> {
+	type MenuItem = vscode.QuickPickItem & { action?: UserMenuAction };
+
+	const otherProfiles = profiles.filter(profile => profile.id !== activeProfileId);
+	const items: MenuItem[] = [
 		{
-			placeHolder: 'User Menu',
-			canPickMany: false,
-			ignoreFocusOut: true
+			label: `$(account) ${username}`,
+			description: `Organization: ${org} | Role: ${role}`,
+			detail: 'You are authenticated'
 		}
-	);
+	];
 
-	if (result?.label.includes('Logout')) {
-		return 'logout';
+	if (otherProfiles.length > 0) {
+		items.push({ label: 'Switch to', kind: vscode.QuickPickItemKind.Separator });
+		items.push(...otherProfiles.map(profile => ({
+			label: `$(arrow-swap) ${profile.user}`,
+			description: `Organization: ${profile.org} | Host: ${profile.host}`,
+			action: { type: 'switch', profileId: profile.id } as UserMenuAction
+		})));
 	}
 
-	return 'cancel';
+	items.push({ label: '', kind: vscode.QuickPickItemKind.Separator });
+	items.push({
+		label: '$(add) Add account or organization',
+		description: 'Sign in with another GitHub account or organization',
+		action: { type: 'add' }
+	});
+	items.push({
+		label: '$(sign-out) Logout',
+		description: `Sign out ${username} from ${org}`,
+		action: { type: 'logout' }
+	});
+	if (profiles.length > 1) {
+		items.push({
+			label: '$(sign-out) Logout all accounts',
+			description: `Remove all ${profiles.length} stored profiles`,
+			action: { type: 'logoutAll' }
+		});
+	}
+
+	const result = await vscode.window.showQuickPick(items, {
+		placeHolder: 'User Menu',
+		canPickMany: false,
+		ignoreFocusOut: true
+	});
+
+	return result?.action ?? { type: 'cancel' };
 }
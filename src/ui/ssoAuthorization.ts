@@ -0,0 +1,80 @@
+import * as vscode from 'vscode';
+import { AuthErrorCode } from '../github/auth';
+import { webUrl } from '../github/http';
+import { getGitHubConnection } from '../utils/config';
+
+/** How often verification is retried while waiting for the user to authorize in the browser */
+const SSO_RETRY_INTERVAL_MS = 5 * 1000;
+/** Stop waiting for the authorization after this long */
+const SSO_WAIT_TIMEOUT_MS = 5 * 60 * 1000;
+
+export const AUTHORIZE_SSO_ACTION = 'Authorize token for SSO';
+
+/**
+ * Resolves after the retry interval, or earlier when the window regains focus
+ * (usually right after the user finished authorizing in the browser) or the wait is cancelled
+ */
+function waitForRetry(cancellation: vscode.CancellationToken): Promise<void> {
+	return new Promise(resolve => {
+		const disposables: vscode.Disposable[] = [];
+		const done = () => {
+			clearTimeout(timer);
+			disposables.forEach(disposable => disposable.dispose());
+			resolve();
+		};
+		const timer = setTimeout(done, SSO_RETRY_INTERVAL_MS);
+		disposables.push(
+			vscode.window.onDidChangeWindowState(state => {
+				if (state.focused) {
+					done();
+				}
+			}),
+			cancellation.onCancellationRequested(done)
+		);
+	});
+}
+
+/**
+ * Offers to authorize the token for an organization that enforces SAML SSO. When accepted, opens
+ * the authorization page and re-runs verify until it no longer reports SSO_REQUIRED.
+ * @param ssoUrl - Authorization URL from the X-GitHub-SSO header, falls back to the organization SSO page
+ * @returns The last verification result, or undefined when the user declined, cancelled or the wait timed out
+ */
+export async function authorizeSsoAndRetry<T extends { success: boolean; errorCode?: AuthErrorCode }>(
+	org: string,
+	ssoUrl: string | undefined,
+	verify: () => Promise<T>
+): Promise<T | undefined> {
+	const choice = await vscode.window.showWarningMessage(
+		`Avro: The "${org}" organization enforces SAML single sign-on. Authorize your token for SSO to continue.`,
+		AUTHORIZE_SSO_ACTION
+	);
+	if (choice !== AUTHORIZE_SSO_ACTION) {
+		return undefined;
+	}
+
+	const url = ssoUrl ?? webUrl(getGitHubConnection(), `/orgs/${encodeURIComponent(org)}/sso`);
+	await vscode.env.openExternal(vscode.Uri.parse(url));
+
+	return vscode.window.withProgress(
+		{
+			location: vscode.ProgressLocation.Notification,
+			title: `Waiting for SSO authorization for ${org}...`,
+			cancellable: true
+		},
+		async (_progress, cancellation) => {
+			const deadline = Date.now() + SSO_WAIT_TIMEOUT_MS;
+			while (Date.now() < deadline) {
+				await waitForRetry(cancellation);
+				if (cancellation.isCancellationRequested) {
+					return undefined;
+				}
+				const result = await verify();
+				if (result.success || result.errorCode !== 'SSO_REQUIRED') {
+					return result;
+				}
+			}
+			return undefined;
+		}
+	);
+}
@@ -0,0 +1,285 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import {
+	GitHubConnection,
+	DEFAULT_GITHUB_API_BASE_URL,
+	deriveWebBaseUrl,
+	trimBaseUrl
+} from '../github/http';
+import { OrgRole, isOrgRole } from '../github/auth';
+
+/** Organization used when none is configured */
+export const DEFAULT_ORGANIZATION = 'avrocc';
+
+const VALID_ROLES: OrgRole[] = ['admin', 'member'];
+
+/** GitHub login rules: alphanumerics and single hyphens, max 39 characters */
+const ORGANIZATION_NAME_PATTERN = /^[a-z\d](?:[a-z\d]|-(?=[a-z\d])){0,38}$/i;
+
+export interface OrganizationAccess {
+	name: string;
+	requiredRoles: OrgRole[];
+}
+
+export interface AccessConfig {
+	/** Organizations users may sign in to, the first one is the default */
+	organizations: OrganizationAccess[];
+	/** Problems found in the settings, invalid entries are ignored */
+	errors: string[];
+}
+
+/**
+ * Read the client ID of the OAuth App used by the device code sign-in
+ */
+export function getOAuthClientId(): string {
+	return getUserSetting('avro.github', 'oauthClientId', '').trim();
+}
+
+/**
+ * Read a setting from the user settings only, ignoring workspace values.
+ * Used for settings that decide where the GitHub token is sent, so an opened workspace cannot redirect it.
+ */
+function getUserSetting<T>(section: string, key: string, defaultValue: T): T {
+	const setting = vscode.workspace.getConfiguration(section).inspect<T>(key);
+	return setting?.globalValue ?? setting?.defaultValue ?? defaultValue;
+}
+
+export interface GitHubConnectionConfig {
+	connection: GitHubConnection;
+	/** Problems found in the settings, invalid values fall back to the defaults */
+	errors: string[];
+}
+
+/**
+ * Read how to reach GitHub (github.com or Enterprise Server) from the avro.github.* settings
+ */
+export function getGitHubConnection(): GitHubConnection {
+	return getGitHubConnectionConfig().connection;
+}
+
+/**
+ * Read and validate the connection settings. The web base URL is derived from the API base URL
+ * unless avro.github.baseUrl is set explicitly. URLs without an http(s) scheme are reported and ignored.
+ * Like the token they protect, these are only read from user settings.
+ */
+export function getGitHubConnectionConfig(): GitHubConnectionConfig {
+	const errors: string[] = [];
+
+	const apiBaseUrl = validateUrl(getUserSetting('avro.github', 'apiBaseUrl', ''), 'avro.github.apiBaseUrl', errors)
+		?? DEFAULT_GITHUB_API_BASE_URL;
+
+	const explicitBaseUrl = vscode.workspace.getConfiguration('avro.github').inspect<string>('baseUrl')?.globalValue;
+	const webBaseUrl = validateUrl(explicitBaseUrl ?? '', 'avro.github.baseUrl', errors) ?? deriveWebBaseUrl(apiBaseUrl);
+
+	const proxy = validateUrl(getUserSetting('avro.github', 'proxy', ''), 'avro.github.proxy', errors);
+
+	return {
+		connection: {
+			apiBaseUrl,
+			webBaseUrl,
+			caCertificates: readCACertificates(getUserSetting<string[]>('avro.github', 'caCertificates', [])),
+			proxy
+		},
+		errors
+	};
+}
+
+/**
+ * The trimmed URL, or undefined when the setting is empty or not an http(s) URL (reported in errors)
+ */
+function validateUrl(value: unknown, setting: string, errors: string[]): string | undefined {
+	const trimmed = typeof value === 'string' ? trimBaseUrl(value) : '';
+	if (!trimmed) {
+		return undefined;
+	}
+	try {
+		const url = new URL(trimmed);
+		if (url.protocol === 'http:' || url.protocol === 'https:') {
+			return trimmed;
+		}
+	} catch {
+		// Reported below
+	}
+	errors.push(`${setting} "${trimmed}" is not an http(s) URL, e.g. https://ghe.example.com/api/v3`);
+	return undefined;
+}
+
+/** Certificates of the last avro.github.caCertificates value, the files are only read again when it changes */
+let caCertificateCache: { paths: string; certificates: string[] } | undefined;
+
+/**
+ * Load PEM files listed in avro.github.caCertificates, skipping unreadable ones
+ */
+function readCACertificates(paths: string[]): string[] {
+	const key = JSON.stringify(paths);
+	if (caCertificateCache?.paths === key) {
+		return caCertificateCache.certificates;
+	}
+	const certificates: string[] = [];
+	for (const certPath of paths) {
+		try {
+			certificates.push(fs.readFileSync(certPath, 'utf8'));
+		} catch (err) {
+			const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+			console.error(`Avro: Could not read CA certificate ${certPath}: ${errorMessage}`);
+		}
+	}
+	caCertificateCache = { paths: key, certificates };
+	return certificates;
+}
+
+/**
+ * Read and validate the organizations and required roles from the avro.github.* settings.
+ * avro.github.organizations takes precedence over the single avro.github.organization,
+ * avro.github.organizationRoles overrides avro.github.requiredRoles per organization.
+ */
+export function getAccessConfig(): AccessConfig {
+	const config = vscode.workspace.getConfiguration('avro.github');
+	const errors: string[] = [];
+
+	const defaultRoles = validateRoles(config.get<unknown>('requiredRoles'), 'avro.github.requiredRoles', errors)
+		?? [...VALID_ROLES];
+
+	const roleOverrides = config.get<Record<string, unknown>>('organizationRoles', {});
+	const overridesByOrg = new Map<string, OrgRole[]>();
+	for (const [org, roles] of Object.entries(roleOverrides ?? {})) {
+		const validated = validateRoles(roles, `avro.github.organizationRoles.${org}`, errors);
+		if (validated) {
+			overridesByOrg.set(org.toLowerCase(), validated);
+		}
+	}
+
+	const listed = config.get<unknown>('organizations', []);
+	const single = config.get<string>('organization', '').trim();
+	const names = Array.isArray(listed) && listed.length > 0 ? listed : [single || DEFAULT_ORGANIZATION];
+
+	const organizations: OrganizationAccess[] = [];
+	for (const entry of names) {
+		const name = typeof entry === 'string' ? entry.trim() : '';
+		if (!ORGANIZATION_NAME_PATTERN.test(name)) {
+			errors.push(`"${String(entry)}" is not a valid GitHub organization name`);
+			continue;
+		}
+		if (organizations.some(org => org.name.toLowerCase() === name.toLowerCase())) {
+			continue;
+		}
+		organizations.push({
+			name,
+			requiredRoles: overridesByOrg.get(name.toLowerCase()) ?? defaultRoles
+		});
+	}
+
+	if (organizations.length === 0) {
+		errors.push(`No valid organization configured, falling back to "${DEFAULT_ORGANIZATION}"`);
+		organizations.push({ name: DEFAULT_ORGANIZATION, requiredRoles: defaultRoles });
+	}
+
+	return { organizations, errors };
+}
+
+/**
+ * Find the access settings for an organization, or undefined if it is not configured
+ */
+export function findOrganizationAccess(access: AccessConfig, org: string | undefined): OrganizationAccess | undefined {
+	if (!org) {
+		return undefined;
+	}
+	return access.organizations.find(entry => entry.name.toLowerCase() === org.toLowerCase());
+}
+
+function validateRoles(value: unknown, setting: string, errors: string[]): OrgRole[] | undefined {
+	if (value === undefined) {
+		return undefined;
+	}
+	if (!Array.isArray(value)) {
+		errors.push(`${setting} must be an array of roles`);
+		return undefined;
+	}
+	const roles = value.filter(isOrgRole);
+	if (roles.length !== value.length) {
+		errors.push(`${setting} contains unknown roles (allowed: ${VALID_ROLES.join(', ')})`);
+	}
+	if (roles.length === 0) {
+		errors.push(`${setting} does not allow any role`);
+		return undefined;
+	}
+	return roles;
+}
+
+/** Permission names: letters, digits, dots, dashes and underscores */
+const PERMISSION_NAME_PATTERN = /^[a-z\d][\w.-]*$/i;
+
+export interface TeamPermissionConfig {
+	/** Named permissions granted by each team, keyed by lowercase team slug */
+	permissionsByTeam: Map<string, string[]>;
+	/** Problems found in the setting, invalid entries are ignored */
+	errors: string[];
+}
+
+/**
+ * Read and validate the team to permission mapping from avro.github.teamPermissions
+ */
+export function getTeamPermissionConfig(): TeamPermissionConfig {
+	const value = vscode.workspace.getConfiguration('avro.github').get<unknown>('teamPermissions', {});
+	const permissionsByTeam = new Map<string, string[]>();
+	const errors: string[] = [];
+
+	if (!value || typeof value !== 'object' || Array.isArray(value)) {
+		errors.push('avro.github.teamPermissions must map team slugs to arrays of permission names');
+		return { permissionsByTeam, errors };
+	}
+
+	for (const [team, permissions] of Object.entries(value)) {
+		const setting = `avro.github.teamPermissions.${team}`;
+		if (!Array.isArray(permissions)) {
+			errors.push(`${setting} must be an array of permission names`);
+			continue;
+		}
+		const valid = permissions.filter((permission): permission is string =>
+			typeof permission === 'string' && PERMISSION_NAME_PATTERN.test(permission));
+		if (valid.length !== permissions.length) {
+			errors.push(`${setting} contains invalid permission names`);
+		}
+		const slug = team.trim().toLowerCase();
+		permissionsByTeam.set(slug, [...new Set([...(permissionsByTeam.get(slug) ?? []), ...valid])]);
+	}
+
+	return { permissionsByTeam, errors };
+}
+
+/**
+ * Where the Items Explorer loads its items from
+ * - api: the Avro platform at avro.api.baseUrl
+ * - file: a local JSON catalog at avro.items.file
+ */
+export type ItemSourceKind = 'api' | 'file';
+
+export interface ItemSourceConfig {
+	kind: ItemSourceKind;
+	/** Avro API base URL, empty when not configured */
+	apiBaseUrl: string;
+	/** Absolute catalog file path, relative paths are resolved against the first workspace folder */
+	filePath: string | undefined;
+	/** Children loaded per request as folders are expanded, 0 (the default) loads the whole catalog at once */
+	pageSize: number;
+}
+
+/**
+ * Read the item source from the avro.items.source, avro.api.baseUrl, avro.items.file and avro.items.pageSize settings
+ */
+export function getItemSourceConfig(): ItemSourceConfig {
+	const kind = vscode.workspace.getConfiguration('avro.items').get<string>('source', 'api') === 'file' ? 'file' : 'api';
+	const apiBaseUrl = trimBaseUrl(getUserSetting('avro.api', 'baseUrl', ''));
+
+	const file = vscode.workspace.getConfiguration('avro.items').get<string>('file', '').trim();
+	const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+	let filePath: string | undefined;
+	if (file) {
+		filePath = path.isAbsolute(file) || !workspaceFolder ? file : path.join(workspaceFolder, file);
+	}
+
+	const pageSize = Math.floor(vscode.workspace.getConfiguration('avro.items').get<number>('pageSize', 0));
+
+	return { kind, apiBaseUrl, filePath, pageSize: pageSize > 0 ? pageSize : 0 };
+}
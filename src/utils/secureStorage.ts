@@ -1,86 +1,224 @@
+import * as crypto from 'crypto';
 import * as vscode from 'vscode';
+import { OrgRole, isOrgRole } from '../github/auth';
+import { apiHost } from '../github/http';
+import { getGitHubConnection } from './config';
 
-const PAT_STORAGE_KEY = 'github-pat';
-const ORG_STORAGE_KEY = 'github-org';
-const USER_STORAGE_KEY = 'github-user';
-const ROLE_STORAGE_KEY = 'github-role';
+const PAT_STORAGE_KEY_PREFIX = 'github-pat:';
+const PROFILES_STORAGE_KEY = 'github-profiles';
+const ACTIVE_PROFILE_STORAGE_KEY = 'github-active-profile';
+const ROLE_HINT_KEY_STORAGE_KEY = 'role-hint-key';
+
+/** Cached roles older than this are not even shown */
+const ROLE_HINT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Single-profile keys used before multi-profile support, migrated on first use
+const LEGACY_PAT_STORAGE_KEY = 'github-pat';
+const LEGACY_ORG_STORAGE_KEY = 'github-org';
+const LEGACY_USER_STORAGE_KEY = 'github-user';
+const LEGACY_ROLE_STORAGE_KEY = 'github-role';
+const LEGACY_AUTH_SOURCE_STORAGE_KEY = 'github-auth-source';
+
+/**
+ * How the stored token was obtained
+ * - pat: pasted Personal Access Token
+ * - device: OAuth device code flow
+ * - vscode: session of the built-in VS Code GitHub authentication provider
+ */
+export type AuthSource = 'pat' | 'device' | 'vscode';
+
+/**
+ * Last role verified with GitHub, signed with a key kept in SecretStorage so edits to globalState are detected
+ */
+export interface RoleHint {
+	role: string;
+	/** When GitHub last confirmed the role (ms since epoch) */
+	verifiedAt: number;
+	/** HMAC-SHA256 over profile id, host, role and verifiedAt */
+	signature: string;
+}
+
+/**
+ * An authenticated GitHub account in one organization on one GitHub host. The token itself lives in SecretStorage.
+ */
+export interface AuthProfile {
+	id: string;
+	user: string;
+	org: string;
+	/** API host the token was verified with (see apiHost), the token is only sent there */
+	host: string;
+	/** Cached role for display while GitHub cannot be reached, read it through SecureStorage.getCachedRole */
+	roleHint?: RoleHint;
+	source: AuthSource;
+}
+
+/**
+ * Profile data passed when saving, role is the one GitHub just verified
+ */
+export type NewAuthProfile = Pick<AuthProfile, 'user' | 'org' | 'host' | 'source'> & { role?: string };
+
+/**
+ * Builds the profile id for a user in an organization on a GitHub host.
+ * The same login on github.com and an Enterprise Server are different accounts.
+ */
+export function getProfileId(user: string, org: string, host: string): string {
+	return `${user}@${org}@${host}`.toLowerCase();
+}
 
 /**
- * Securely stores GitHub PAT and user information in VSCode's secure storage
+ * Securely stores GitHub tokens and profile information in VSCode's secure storage.
+ * Several profiles (account + organization) can be stored; getters operate on the active one.
  */
 export class SecureStorage {
 	private context: vscode.ExtensionContext;
 	private secrets: vscode.SecretStorage;
+	private ready: Promise<void>;
+	private roleHintKey: Promise<string> | undefined;
 
 	constructor(context: vscode.ExtensionContext) {
 		this.context = context;
 		this.secrets = context.secrets;
+		this.ready = this.migrateLegacyProfile()
+			.then(() => this.dropUnsignedRoles())
+			.then(() => this.addProfileHosts());
 	}
 
 	/**
-	 * Store GitHub PAT securely
+	 * Store a profile with its token and make it the active one
 	 */
-	async storePAT(pat: string): Promise<void> {
-		await this.secrets.store(PAT_STORAGE_KEY, pat);
+	async saveProfile(profile: NewAuthProfile, token: string): Promise<AuthProfile> {
+		await this.ready;
+		const id = getProfileId(profile.user, profile.org, profile.host);
+		const saved: AuthProfile = {
+			id,
+			user: profile.user,
+			org: profile.org,
+			host: profile.host,
+			source: profile.source,
+			roleHint: profile.role ? await this.signRole(id, profile.host, profile.role) : undefined
+		};
+		const profiles = this.readProfiles().filter(existing => existing.id !== saved.id);
+		await this.secrets.store(PAT_STORAGE_KEY_PREFIX + saved.id, token);
+		await this.context.globalState.update(PROFILES_STORAGE_KEY, [...profiles, saved]);
+		await this.context.globalState.update(ACTIVE_PROFILE_STORAGE_KEY, saved.id);
+		return saved;
 	}
 
 	/**
-	 * Retrieve stored GitHub PAT
+	 * List all stored profiles
 	 */
-	async getPAT(): Promise<string | undefined> {
-		return await this.secrets.get(PAT_STORAGE_KEY);
+	async getProfiles(): Promise<AuthProfile[]> {
+		await this.ready;
+		return this.readProfiles();
 	}
 
 	/**
-	 * Store GitHub organization name
+	 * Retrieve the active profile
 	 */
-	async storeOrganization(org: string): Promise<void> {
-		await this.context.globalState.update(ORG_STORAGE_KEY, org);
+	async getActiveProfile(): Promise<AuthProfile | undefined> {
+		await this.ready;
+		const activeId = this.context.globalState.get<string>(ACTIVE_PROFILE_STORAGE_KEY);
+		return this.readProfiles().find(profile => profile.id === activeId);
 	}
 
 	/**
-	 * Retrieve stored GitHub organization
+	 * Make a stored profile the active one
 	 */
-	async getOrganization(): Promise<string | undefined> {
-		return this.context.globalState.get<string>(ORG_STORAGE_KEY);
+	async setActiveProfile(profileId: string): Promise<AuthProfile | undefined> {
+		await this.ready;
+		const profile = this.readProfiles().find(existing => existing.id === profileId);
+		if (profile) {
+			await this.context.globalState.update(ACTIVE_PROFILE_STORAGE_KEY, profile.id);
+		}
+		return profile;
 	}
 
 	/**
-	 * Store authenticated user information
+	 * Replace the token of the active profile (e.g. a refreshed VS Code session)
 	 */
-	async storeUser(username: string): Promise<void> {
-		await this.context.globalState.update(USER_STORAGE_KEY, username);
+	async storePAT(pat: string): Promise<void> {
+		const profile = await this.getActiveProfile();
+		if (profile) {
+			await this.secrets.store(PAT_STORAGE_KEY_PREFIX + profile.id, pat);
+		}
+	}
+
+	/**
+	 * Retrieve the token of the active profile
+	 */
+	async getPAT(): Promise<string | undefined> {
+		const profile = await this.getActiveProfile();
+		return profile ? await this.secrets.get(PAT_STORAGE_KEY_PREFIX + profile.id) : undefined;
+	}
+
+	/**
+	 * Retrieve the organization of the active profile
+	 */
+	async getOrganization(): Promise<string | undefined> {
+		return (await this.getActiveProfile())?.org;
 	}
 
 	/**
-	 * Retrieve stored user information
+	 * Retrieve the user of the active profile
 	 */
 	async getUser(): Promise<string | undefined> {
-		return this.context.globalState.get<string>(USER_STORAGE_KEY);
+		return (await this.getActiveProfile())?.user;
 	}
 
 	/**
-	 * Store user role in organization
+	 * Cache the role GitHub just verified for the active profile
 	 */
 	async storeRole(role: string): Promise<void> {
-		await this.context.globalState.update(ROLE_STORAGE_KEY, role);
+		const profile = await this.getActiveProfile();
+		if (profile) {
+			await this.updateProfile({ ...profile, roleHint: await this.signRole(profile.id, profile.host, role) });
+		}
 	}
 
 	/**
-	 * Retrieve stored user role
+	 * Retrieve the cached role of the active profile if its signature is valid and it has not expired.
+	 * Only used while GitHub cannot be reached: for display and read-only access to items.
 	 */
-	async getRole(): Promise<string | undefined> {
-		return this.context.globalState.get<string>(ROLE_STORAGE_KEY);
+	async getCachedRole(): Promise<OrgRole | undefined> {
+		const profile = await this.getActiveProfile();
+		const hint = profile?.roleHint;
+		if (!profile || !hint || Date.now() - hint.verifiedAt > ROLE_HINT_TTL_MS || hint.verifiedAt > Date.now()) {
+			return undefined;
+		}
+		const expected = await this.computeRoleSignature(profile.id, profile.host, hint.role, hint.verifiedAt);
+		const valid = expected.length === hint.signature.length
+			&& crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(hint.signature));
+		return valid && isOrgRole(hint.role) ? hint.role : undefined;
 	}
 
 	/**
-	 * Clear all stored authentication data
+	 * Retrieve how the token of the active profile was obtained
 	 */
-	async clearAll(): Promise<void> {
-		await this.secrets.delete(PAT_STORAGE_KEY);
-		await this.context.globalState.update(ORG_STORAGE_KEY, undefined);
-		await this.context.globalState.update(USER_STORAGE_KEY, undefined);
-		await this.context.globalState.update(ROLE_STORAGE_KEY, undefined);
+	async getAuthSource(): Promise<AuthSource> {
+		return (await this.getActiveProfile())?.source ?? 'pat';
+	}
+
+	/**
+	 * Clear stored authentication data of one profile, or of all profiles when no id is given.
+	 * Removing the active profile leaves no profile active.
+	 */
+	async clearAll(profileId?: string): Promise<void> {
+		await this.ready;
+		const profiles = this.readProfiles();
+		const removed = profileId ? profiles.filter(profile => profile.id === profileId) : profiles;
+
+		for (const profile of removed) {
+			await this.secrets.delete(PAT_STORAGE_KEY_PREFIX + profile.id);
+		}
+		await this.context.globalState.update(
+			PROFILES_STORAGE_KEY,
+			profiles.filter(profile => !removed.includes(profile))
+		);
+
+		const activeId = this.context.globalState.get<string>(ACTIVE_PROFILE_STORAGE_KEY);
+		if (!profileId || activeId === profileId) {
+			await this.context.globalState.update(ACTIVE_PROFILE_STORAGE_KEY, undefined);
+		}
 	}
 
 	/**
@@ -91,4 +229,124 @@ export class SecureStorage {
 		const user = await this.getUser();
 		return !!pat && !!user;
 	}
+
+	private readProfiles(): AuthProfile[] {
+		return this.context.globalState.get<AuthProfile[]>(PROFILES_STORAGE_KEY, []);
+	}
+
+	private async signRole(profileId: string, host: string, role: string): Promise<RoleHint> {
+		const verifiedAt = Date.now();
+		return { role, verifiedAt, signature: await this.computeRoleSignature(profileId, host, role, verifiedAt) };
+	}
+
+	private async computeRoleSignature(profileId: string, host: string, role: string, verifiedAt: number): Promise<string> {
+		return crypto.createHmac('sha256', await this.getRoleHintKey())
+			.update(`${profileId}\n${host}\n${role}\n${verifiedAt}`)
+			.digest('hex');
+	}
+
+	/**
+	 * Signing key for role hints, created on first use
+	 */
+	private getRoleHintKey(): Promise<string> {
+		if (!this.roleHintKey) {
+			this.roleHintKey = (async () => {
+				const existing = await this.secrets.get(ROLE_HINT_KEY_STORAGE_KEY);
+				if (existing) {
+					return existing;
+				}
+				const key = crypto.randomBytes(32).toString('hex');
+				await this.secrets.store(ROLE_HINT_KEY_STORAGE_KEY, key);
+				return key;
+			})();
+		}
+		return this.roleHintKey;
+	}
+
+	private async updateProfile(profile: AuthProfile): Promise<void> {
+		const profiles = this.readProfiles().map(existing => existing.id === profile.id ? profile : existing);
+		await this.context.globalState.update(PROFILES_STORAGE_KEY, profiles);
+	}
+
+	/**
+	 * Remove plaintext roles written by earlier versions, they are re-derived from GitHub
+	 */
+	private async dropUnsignedRoles(): Promise<void> {
+		const profiles = this.context.globalState.get<(AuthProfile & { role?: string })[]>(PROFILES_STORAGE_KEY, []);
+		if (profiles.some(profile => profile.role !== undefined)) {
+			await this.context.globalState.update(
+				PROFILES_STORAGE_KEY,
+				profiles.map((profile): AuthProfile => ({
+					id: profile.id,
+					user: profile.user,
+					org: profile.org,
+					host: profile.host,
+					roleHint: profile.roleHint,
+					source: profile.source
+				}))
+			);
+		}
+	}
+
+	/**
+	 * Assign profiles stored before they were keyed by host to the host configured now, which is the one
+	 * they were last verified with. Their role hints were signed without the host and are dropped.
+	 */
+	private async addProfileHosts(): Promise<void> {
+		const profiles = this.readProfiles();
+		if (profiles.every(profile => profile.host)) {
+			return;
+		}
+
+		const host = apiHost(getGitHubConnection());
+		const activeId = this.context.globalState.get<string>(ACTIVE_PROFILE_STORAGE_KEY);
+		const migrated: AuthProfile[] = [];
+		for (const profile of profiles) {
+			if (profile.host) {
+				migrated.push(profile);
+				continue;
+			}
+			const id = getProfileId(profile.user, profile.org, host);
+			const pat = await this.secrets.get(PAT_STORAGE_KEY_PREFIX + profile.id);
+			if (pat) {
+				await this.secrets.store(PAT_STORAGE_KEY_PREFIX + id, pat);
+			}
+			await this.secrets.delete(PAT_STORAGE_KEY_PREFIX + profile.id);
+			migrated.push({ id, user: profile.user, org: profile.org, host, source: profile.source });
+			if (activeId === profile.id) {
+				await this.context.globalState.update(ACTIVE_PROFILE_STORAGE_KEY, id);
+			}
+		}
+		await this.context.globalState.update(PROFILES_STORAGE_KEY, migrated);
+	}
+
+	/**
+	 * Move credentials stored under the single-profile keys into a profile
+	 */
+	private async migrateLegacyProfile(): Promise<void> {
+		const pat = await this.secrets.get(LEGACY_PAT_STORAGE_KEY);
+		const user = this.context.globalState.get<string>(LEGACY_USER_STORAGE_KEY);
+		const org = this.context.globalState.get<string>(LEGACY_ORG_STORAGE_KEY);
+
+		if (pat && user && org) {
+			const host = apiHost(getGitHubConnection());
+			const profile: AuthProfile = {
+				id: getProfileId(user, org, host),
+				user,
+				org,
+				host,
+				source: this.context.globalState.get<AuthSource>(LEGACY_AUTH_SOURCE_STORAGE_KEY) ?? 'pat'
+			};
+			const profiles = this.readProfiles().filter(existing => existing.id !== profile.id);
+			await this.secrets.store(PAT_STORAGE_KEY_PREFIX + profile.id, pat);
+			await this.context.globalState.update(PROFILES_STORAGE_KEY, [...profiles, profile]);
+			await this.context.globalState.update(ACTIVE_PROFILE_STORAGE_KEY, profile.id);
+		}
+
+		await this.secrets.delete(LEGACY_PAT_STORAGE_KEY);
+		await this.context.globalState.update(LEGACY_USER_STORAGE_KEY, undefined);
+		await this.context.globalState.update(LEGACY_ORG_STORAGE_KEY, undefined);
+		await this.context.globalState.update(LEGACY_ROLE_STORAGE_KEY, undefined);
+		await this.context.globalState.update(LEGACY_AUTH_SOURCE_STORAGE_KEY, undefined);
+	}
 }